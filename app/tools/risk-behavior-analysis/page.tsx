@@ -1,13 +1,47 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Wizard from '@/components/risk-analysis/Wizard';
 import Step1Activities from '@/components/risk-analysis/Step1Activities';
 import Step2Risks from '@/components/risk-analysis/Step2Risks';
 import Step3Assignment from '@/components/risk-analysis/Step3Assignment';
 import Step4Results from '@/components/risk-analysis/Step4Results';
-import { Activity, Risk, Input, AnalysisOutput } from '@/lib/risk-analysis/types';
+import ScheduleImport from '@/components/risk-analysis/ScheduleImport';
+import DraftManager from '@/components/risk-analysis/DraftManager';
+import ScoringProfileEditor from '@/components/risk-analysis/ScoringProfileEditor';
+import QualitativeScaleEditor from '@/components/risk-analysis/QualitativeScaleEditor';
+import {
+  Activity,
+  Risk,
+  Input,
+  AnalysisOutput,
+  ScheduleImportResult,
+  ProjectFile,
+  ProjectSettings,
+  MonteCarloOutput,
+  MonteCarloSimulationRequest,
+  MonteCarloWorkerMessage,
+  PortfolioSelection,
+  ScoringProfile,
+  QualitativeScales,
+  ScenarioDefinition,
+} from '@/lib/risk-analysis/types';
 import { analyzeRiskBehavior } from '@/lib/risk-analysis/analyzer';
+import { MAX_MONTE_CARLO_ITERATIONS } from '@/lib/risk-analysis/monte-carlo';
+import { findScheduleCycle } from '@/lib/risk-analysis/schedule';
+import { applyMitigations } from '@/lib/risk-analysis/portfolio';
+import { DEFAULT_SCORING_PROFILE, normalizeScoringProfile } from '@/lib/risk-analysis/scoring';
+import { DEFAULT_QUALITATIVE_SCALES } from '@/lib/risk-analysis/qualitative';
+import { validateThreePointEstimate } from '@/lib/risk-analysis/validation';
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  createProjectFile,
+  parseProjectFile,
+  serializeProjectFile,
+} from '@/lib/risk-analysis/project-file';
+import { clearAutosave, loadAutosave, saveAutosave } from '@/lib/risk-analysis/drafts';
+
+const AUTOSAVE_DELAY_MS = 1000;
 
 const WIZARD_STEPS = [
   {
@@ -32,50 +66,265 @@ const WIZARD_STEPS = [
   },
 ];
 
+function downloadJson(dataStr: string, fileName: string) {
+  const dataBlob = new Blob([dataStr], { type: 'application/json' });
+  const url = URL.createObjectURL(dataBlob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 export default function RiskBehaviorAnalysisPage() {
   const [currentStep, setCurrentStep] = useState(0);
   const [activities, setActivities] = useState<Activity[]>([]);
   const [risks, setRisks] = useState<Risk[]>([]);
   const [analysisOutput, setAnalysisOutput] = useState<AnalysisOutput | null>(null);
   const [enableMonteCarlo, setEnableMonteCarlo] = useState(false);
-  const [monteCarloIterations, setMonteCarloIterations] = useState(7500);
+  const [monteCarloIterations, setMonteCarloIterations] = useState(DEFAULT_PROJECT_SETTINGS.monteCarlo.iterations);
+  const [stopOnConvergence, setStopOnConvergence] = useState(
+    DEFAULT_PROJECT_SETTINGS.monteCarlo.stopOnConvergence ?? false
+  );
+  const [tolerance, setTolerance] = useState(DEFAULT_PROJECT_SETTINGS.monteCarlo.tolerance ?? 0.5);
+  const [monteCarloSeed, setMonteCarloSeed] = useState('');
+  const [deadline, setDeadline] = useState(''); // Target finish date, empty for none
+  const [budget, setBudget] = useState(''); // Total project budget, empty for none
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
+  const [qualitativeScales, setQualitativeScales] = useState<QualitativeScales>(DEFAULT_QUALITATIVE_SCALES);
+  const [scenarios, setScenarios] = useState<ScenarioDefinition[]>([]);
+  const [saveWithResults, setSaveWithResults] = useState(true);
+  const [pendingRestore, setPendingRestore] = useState<ProjectFile | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [lastAutosavedAt, setLastAutosavedAt] = useState<string | null>(null);
+  const [simulationProgress, setSimulationProgress] = useState<{ completed: number; total: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop a running simulation when leaving the page
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Offer to restore the previous session; autosave stays off until the user decides,
+  // so the empty initial state does not overwrite it
+  useEffect(() => {
+    const saved = loadAutosave();
+    if (saved && (saved.input.activities.length > 0 || saved.input.risks.length > 0)) {
+      setPendingRestore(saved);
+    } else {
+      setAutosaveReady(true);
+    }
+  }, []);
+
+  // Partial Monte Carlo results arrive several times a second, so nothing is autosaved
+  // while a simulation runs; the final result is saved once it completes or is cancelled
+  const simulating = simulationProgress !== null;
+  useEffect(() => {
+    if (!autosaveReady || simulating) return;
+    const timer = setTimeout(() => {
+      if (saveAutosave(buildProjectFile(true))) {
+        setLastAutosavedAt(new Date().toISOString());
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, simulating, activities, risks, analysisOutput, enableMonteCarlo, monteCarloIterations, stopOnConvergence, tolerance, monteCarloSeed, deadline, budget, scoringProfile, qualitativeScales, scenarios]);
 
   const handleStepChange = (step: number) => {
     // If moving to step 4 (results), run analysis first
-    if (step === 3 && currentStep < 3) {
-      runAnalysis();
+    if (step === 3 && currentStep < 3 && !runAnalysis()) {
+      return;
     }
     setCurrentStep(step);
   };
 
-  const runAnalysis = () => {
+  const stopSimulation = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setSimulationProgress(null);
+  };
+
+  // Monte Carlo runs in a Web Worker; partial results replace analysisOutput.monteCarlo as they arrive
+  const startSimulation = (request: MonteCarloSimulationRequest) => {
+    const worker = new Worker(new URL('../../../lib/risk-analysis/monte-carlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    setSimulationProgress({ completed: 0, total: request.iterations });
+
+    const setMonteCarlo = (monteCarlo: MonteCarloOutput) =>
+      setAnalysisOutput((prev) => (prev ? { ...prev, monteCarlo } : prev));
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setSimulationProgress({ completed: message.completed, total: message.total });
+        if (message.partial) setMonteCarlo(message.partial);
+        return;
+      }
+      if (message.type === 'done') {
+        setMonteCarlo(message.result);
+      } else if (message.type === 'error') {
+        alert(`Monte Carlo simulation failed: ${message.message}`);
+      }
+      stopSimulation();
+    };
+    worker.onerror = (event) => {
+      alert(`Monte Carlo simulation failed: ${event.message}`);
+      stopSimulation();
+    };
+    worker.postMessage(request);
+  };
+
+  // Risks can be passed in when they were just changed and state has not updated yet
+  // Returns false (after telling the user why) if the input cannot be analyzed
+  const runAnalysis = (analysisRisks: Risk[] = risks): boolean => {
+    stopSimulation();
+
     const input: Input = {
       activities,
-      risks,
+      risks: analysisRisks,
     };
 
-    const output = analyzeRiskBehavior(
-      input,
-      enableMonteCarlo,
-      monteCarloIterations
-    );
+    // Without Worker support the simulation runs inline, as part of the analysis
+    const settings = currentSettings();
+    const useWorker = enableMonteCarlo && typeof Worker !== 'undefined';
+    const runTolerance = settings.monteCarlo.stopOnConvergence ? settings.monteCarlo.tolerance : undefined;
+    let output: AnalysisOutput;
+    try {
+      output = analyzeRiskBehavior(
+        input,
+        enableMonteCarlo && !useWorker,
+        monteCarloIterations,
+        settings.deadline,
+        settings.budget,
+        settings.monteCarlo.seed,
+        runTolerance,
+        scoringProfile
+      );
+    } catch (err) {
+      // e.g. a logic cycle in a loaded project, which step 0 would otherwise have blocked
+      alert(`Analysis failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+      return false;
+    }
 
     setAnalysisOutput(output);
+
+    if (useWorker) {
+      startSimulation({
+        type: 'simulate',
+        input,
+        iterations: monteCarloIterations,
+        deadline: settings.deadline,
+        budget: settings.budget,
+        seed: settings.monteCarlo.seed,
+        tolerance: runTolerance,
+      });
+    }
+    return true;
+  };
+
+  const handleScheduleImport = (result: ScheduleImportResult) => {
+    setActivities(result.activities);
+    // Imported activities replace the current ones, so existing assignments no longer apply
+    setRisks(risks.map((r) => ({ ...r, affectedActivities: [] })));
+    stopSimulation();
+    setAnalysisOutput(null);
+  };
+
+  const handleApplyMitigations = (selections: PortfolioSelection[]) => {
+    const mitigatedRisks = applyMitigations(risks, selections);
+    setRisks(mitigatedRisks);
+    runAnalysis(mitigatedRisks);
   };
 
   const handleExport = () => {
     if (!analysisOutput) return;
 
-    const dataStr = JSON.stringify(analysisOutput, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `risk-analysis-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadJson(
+      JSON.stringify(analysisOutput, null, 2),
+      `risk-analysis-${new Date().toISOString().split('T')[0]}.json`
+    );
+  };
+
+  const currentSettings = (): ProjectSettings => ({
+    monteCarlo: {
+      enabled: enableMonteCarlo,
+      iterations: monteCarloIterations,
+      stopOnConvergence,
+      tolerance,
+      // Empty seed means a fresh random run; the seed used is reported in the results
+      seed: monteCarloSeed.trim() === '' ? undefined : parseInt(monteCarloSeed, 10) >>> 0,
+    },
+    deadline: deadline || undefined,
+    budget: budget.trim() === '' || isNaN(parseFloat(budget)) ? undefined : parseFloat(budget),
+    scoringProfile,
+    qualitativeScales,
+    scenarios: scenarios.length > 0 ? scenarios : undefined,
+  });
+
+  const applyProjectFile = (file: ProjectFile) => {
+    stopSimulation();
+    setActivities(file.input.activities);
+    setRisks(file.input.risks);
+    setEnableMonteCarlo(file.settings.monteCarlo.enabled);
+    setMonteCarloIterations(file.settings.monteCarlo.iterations);
+    setStopOnConvergence(file.settings.monteCarlo.stopOnConvergence ?? false);
+    setTolerance(file.settings.monteCarlo.tolerance ?? DEFAULT_PROJECT_SETTINGS.monteCarlo.tolerance ?? 0.5);
+    setMonteCarloSeed(
+      file.settings.monteCarlo.seed !== undefined ? String(file.settings.monteCarlo.seed) : ''
+    );
+    setDeadline(file.settings.deadline ?? '');
+    setBudget(file.settings.budget !== undefined ? String(file.settings.budget) : '');
+    setScoringProfile(normalizeScoringProfile(file.settings.scoringProfile ?? DEFAULT_SCORING_PROFILE));
+    setQualitativeScales(file.settings.qualitativeScales ?? DEFAULT_QUALITATIVE_SCALES);
+    setScenarios(file.settings.scenarios ?? []);
+    // Loading drops saved results the input could not reproduce (e.g. a logic cycle),
+    // so the wizard then opens on the activities step where it can be fixed
+    setAnalysisOutput(file.results ?? null);
+    setCurrentStep(file.results ? 3 : 0);
+  };
+
+  const buildProjectFile = (includeResults: boolean) =>
+    createProjectFile(
+      { activities, risks },
+      currentSettings(),
+      includeResults ? analysisOutput ?? undefined : undefined
+    );
+
+  const handleRestoreSession = () => {
+    if (pendingRestore) applyProjectFile(pendingRestore);
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  };
+
+  const handleDiscardSession = () => {
+    clearAutosave();
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  };
+
+  const handleSaveProject = () => {
+    downloadJson(
+      serializeProjectFile(buildProjectFile(saveWithResults)),
+      `risk-project-${new Date().toISOString().split('T')[0]}.json`
+    );
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileInput = e.target.files?.[0];
+    e.target.value = '';
+    if (!fileInput) return;
+
+    try {
+      const file = parseProjectFile(await fileInput.text());
+      if (
+        (activities.length > 0 || risks.length > 0) &&
+        !confirm('Opening a project replaces the current activities and risks. Continue?')
+      ) {
+        return;
+      }
+      applyProjectFile(file);
+    } catch (err) {
+      alert(`Could not open ${fileInput.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
   };
 
   const canProceedStep0 = (() => {
@@ -89,6 +338,9 @@ export default function RiskBehaviorAnalysisPage() {
     
     // All level 2 activities must have valid dates and costs
     if (level2Activities.length === 0) return false;
+
+    // Predecessor logic must be acyclic
+    if (findScheduleCycle(activities)) return false;
     
     return level2Activities.every((a) => {
       if (!a.title || !a.start || !a.end) return false;
@@ -96,6 +348,8 @@ export default function RiskBehaviorAnalysisPage() {
       const endDate = new Date(a.end);
       if (endDate < startDate) return false;
       if (a.cost < 0) return false;
+      if (a.durationEstimate && validateThreePointEstimate(a.durationEstimate, 'durationEstimate').length > 0) return false;
+      if (a.costEstimate && validateThreePointEstimate(a.costEstimate, 'costEstimate').length > 0) return false;
       return true;
     });
   })();
@@ -123,14 +377,23 @@ export default function RiskBehaviorAnalysisPage() {
     switch (currentStep) {
       case 0:
         return (
-          <Step1Activities
-            activities={activities}
-            onActivitiesChange={setActivities}
-          />
+          <div>
+            <ScheduleImport
+              onImport={handleScheduleImport}
+              confirmReplace={activities.length > 0}
+            />
+            <Step1Activities
+              activities={activities}
+              onActivitiesChange={setActivities}
+            />
+          </div>
         );
       case 1:
         return (
-          <Step2Risks risks={risks} onRisksChange={setRisks} />
+          <div>
+            <QualitativeScaleEditor scales={qualitativeScales} onChange={setQualitativeScales} />
+            <Step2Risks risks={risks} onRisksChange={setRisks} scales={qualitativeScales} />
+          </div>
         );
       case 2:
         return (
@@ -165,24 +428,128 @@ export default function RiskBehaviorAnalysisPage() {
                     <input
                       type="number"
                       value={monteCarloIterations}
-                      onChange={(e) => setMonteCarloIterations(parseInt(e.target.value) || 7500)}
-                      min="5000"
-                      max="10000"
-                      className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                      onChange={(e) =>
+                        setMonteCarloIterations(
+                          Math.min(MAX_MONTE_CARLO_ITERATIONS, Math.max(1, parseInt(e.target.value) || 1))
+                        )
+                      }
+                      min="1"
+                      max={MAX_MONTE_CARLO_ITERATIONS}
+                      title={stopOnConvergence ? 'Maximum iterations' : 'Iterations'}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                    />
+                  )}
+                  {enableMonteCarlo && (
+                    <label
+                      className="flex items-center gap-2"
+                      title="Run in batches until the standard error of cost and duration P50/P90 is within the tolerance"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={stopOnConvergence}
+                        onChange={(e) => setStopOnConvergence(e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="text-sm text-gray-900">Auto</span>
+                      {stopOnConvergence && (
+                        <>
+                          <input
+                            type="number"
+                            value={tolerance}
+                            onChange={(e) => {
+                              // Ignore an empty or partial entry; 0 and below clamp to the minimum
+                              const value = parseFloat(e.target.value);
+                              if (!isNaN(value)) setTolerance(Math.max(0.01, value));
+                            }}
+                            min="0.01"
+                            step="0.1"
+                            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                          />
+                          <span className="text-sm text-gray-900">%</span>
+                        </>
+                      )}
+                    </label>
+                  )}
+                  {enableMonteCarlo && (
+                    <input
+                      type="number"
+                      value={monteCarloSeed}
+                      onChange={(e) => setMonteCarloSeed(e.target.value)}
+                      min="0"
+                      placeholder="Random seed"
+                      title="Leave empty for a random seed; reuse a seed to reproduce results"
+                      className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-black"
                     />
                   )}
                   <button
-                    onClick={runAnalysis}
+                    onClick={() => runAnalysis()}
                     className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
                   >
                     Re-run Analysis
                   </button>
                 </div>
               </div>
+              {simulationProgress && (
+                <div className="mt-3 pt-3 border-t border-blue-200 flex items-center gap-4">
+                  <div className="flex-1 h-2 bg-blue-100 rounded">
+                    <div
+                      className="h-2 bg-blue-600 rounded"
+                      style={{ width: `${(simulationProgress.completed / simulationProgress.total) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-sm text-blue-900">
+                    Simulating {simulationProgress.completed.toLocaleString()} /{' '}
+                    {simulationProgress.total.toLocaleString()} iterations
+                    {stopOnConvergence && ' (stops early on convergence)'}
+                  </span>
+                  <button
+                    onClick={stopSimulation}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {enableMonteCarlo && (
+                <div className="mt-3 pt-3 border-t border-blue-200 flex flex-wrap items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-900">
+                    Target finish
+                    <input
+                      type="date"
+                      value={deadline}
+                      onChange={(e) => setDeadline(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-900">
+                    Budget
+                    <input
+                      type="number"
+                      value={budget}
+                      onChange={(e) => setBudget(e.target.value)}
+                      min="0"
+                      placeholder="Total budget"
+                      className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                    />
+                  </label>
+                  <span className="text-xs text-blue-700">
+                    Planned finish {analysisOutput.schedule.projectFinish || 'n/a'} · planned cost{' '}
+                    {activities.filter((a) => a.level === 2).reduce((sum, a) => sum + a.cost, 0).toFixed(2)}
+                  </span>
+                </div>
+              )}
             </div>
+            <ScoringProfileEditor profile={scoringProfile} onChange={setScoringProfile} />
             <Step4Results
               analysisOutput={analysisOutput}
+              input={{ activities, risks }}
+              scales={qualitativeScales}
+              scoringProfile={scoringProfile}
+              simulating={simulating}
+              scenarios={scenarios}
+              onScenariosChange={setScenarios}
               onExport={handleExport}
+              onApplyMitigations={handleApplyMitigations}
             />
           </div>
         ) : (
@@ -198,16 +565,74 @@ export default function RiskBehaviorAnalysisPage() {
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white border-b border-gray-200">
-        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Risk Behavior Analysis Module
-          </h1>
-          <p className="text-gray-600">
-            Deterministic, analytical, and simulation-based risk evaluation for project management
-          </p>
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Risk Behavior Analysis Module
+            </h1>
+            <p className="text-gray-600">
+              Deterministic, analytical, and simulation-based risk evaluation for project management
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <div className="flex gap-2">
+              <label className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium cursor-pointer">
+                Open Project
+                <input type="file" accept=".json,application/json" onChange={handleOpenProject} className="hidden" />
+              </label>
+              <button
+                onClick={handleSaveProject}
+                disabled={activities.length === 0 && risks.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:bg-gray-200 disabled:text-gray-400"
+              >
+                Save Project
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={saveWithResults}
+                onChange={(e) => setSaveWithResults(e.target.checked)}
+                className="rounded"
+              />
+              Include last results
+            </label>
+          </div>
         </div>
       </div>
 
+      {pendingRestore && (
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+            <p className="text-sm text-yellow-900">
+              Restore your previous session from {new Date(pendingRestore.savedAt).toLocaleString()} (
+              {pendingRestore.input.activities.length} activities, {pendingRestore.input.risks.length} risks)?
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDiscardSession}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleRestoreSession}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DraftManager
+        buildFile={() => buildProjectFile(true)}
+        onLoad={applyProjectFile}
+        onClearAll={() => setLastAutosavedAt(null)}
+        lastAutosavedAt={lastAutosavedAt}
+      />
+
       <Wizard
         steps={WIZARD_STEPS}
         currentStep={currentStep}
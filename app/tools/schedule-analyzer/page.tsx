@@ -1,18 +1,232 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Schedule, DcmaAssessment, DcmaMetricResult } from '@/lib/schedule-analysis/types';
+import { assessSchedule } from '@/lib/schedule-analysis/dcma';
+import { validateSchedule } from '@/lib/schedule-analysis/validation';
+import { SAMPLE_SCHEDULE } from '@/lib/schedule-analysis/sample';
+
+function formatMetricValue(metric: DcmaMetricResult): string {
+  if (metric.value === null) return 'N/A';
+  switch (metric.unit) {
+    case 'percent':
+      return `${metric.value.toFixed(1)}%`;
+    case 'ratio':
+      return metric.value.toFixed(2);
+    case 'passFail':
+      return metric.passed ? 'Pass' : 'Fail';
+  }
+}
+
 export default function ScheduleAnalyzerPage() {
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [assessment, setAssessment] = useState<DcmaAssessment | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [expandedMetric, setExpandedMetric] = useState<string | null>(null);
+
+  const runAssessment = (input: Schedule) => {
+    const validationErrors = validateSchedule(input);
+    setSchedule(input);
+    setExpandedMetric(null);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors.map((e) => e.message));
+      setAssessment(null);
+      return;
+    }
+    setErrors([]);
+    setAssessment(assessSchedule(input));
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = JSON.parse(await file.text()) as Schedule;
+      runAssessment({ ...parsed, links: parsed.links ?? [] });
+    } catch {
+      setSchedule(null);
+      setAssessment(null);
+      setErrors([`${file.name} is not a valid schedule JSON file`]);
+    }
+  };
+
+  const taskName = (taskId: string) =>
+    schedule?.tasks.find((t) => t.id === taskId)?.name ?? taskId;
+
   return (
     <div className="min-h-screen bg-gray-50 p-8">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         <h1 className="text-4xl font-bold text-gray-900 mb-4">Schedule Quality Analyzer</h1>
         <p className="text-lg text-gray-600 mb-8">
           CPM, float diagnostics, and DCMA 14-Point assessment in one tool.
         </p>
-        <div className="bg-white rounded-lg shadow-sm p-8 border border-gray-200">
-          <p className="text-gray-500">Tool implementation coming soon...</p>
+
+        <div className="bg-white rounded-lg shadow-sm p-8 border border-gray-200 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Load Schedule</h2>
+          <p className="text-sm text-gray-700 mb-4">
+            Upload a schedule as JSON with a status date, tasks (dates, baseline, actuals, constraints,
+            resources) and logic links, or try the sample schedule.
+          </p>
+          <div className="flex items-center gap-4">
+            <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium cursor-pointer">
+              Upload JSON
+              <input type="file" accept=".json,application/json" onChange={handleFileUpload} className="hidden" />
+            </label>
+            <button
+              onClick={() => runAssessment(SAMPLE_SCHEDULE)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+            >
+              Load Sample Schedule
+            </button>
+            {schedule && (
+              <span className="text-sm text-gray-700">
+                {schedule.name ?? 'Schedule'}: {schedule.tasks.length} tasks, {schedule.links.length} links
+              </span>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <ul className="text-sm text-red-800 list-disc list-inside">
+                {errors.map((error, idx) => (
+                  <li key={idx}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
+
+        {assessment && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-900">Checks Passed</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {assessment.passedCount} / {assessment.metrics.length}
+                </p>
+              </div>
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-900">Incomplete Tasks</p>
+                <p className="text-2xl font-bold text-gray-900">{assessment.incompleteTaskCount}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-900">Project Finish (CPM)</p>
+                <p className="text-2xl font-bold text-gray-900">{assessment.cpm.projectFinish || 'N/A'}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-900">Critical Path</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {assessment.cpm.criticalPath.length} tasks
+                </p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">#</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Check</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Value</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Threshold</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Result</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Offending</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {assessment.metrics.map((metric) => (
+                    <Fragment key={metric.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{metric.number}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          <p className="font-medium">{metric.name}</p>
+                          <p className="text-xs text-gray-700">{metric.description}</p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {formatMetricValue(metric)}
+                          {metric.unit === 'percent' && metric.population > 0 && (
+                            <span className="ml-1 text-xs text-gray-700">
+                              ({metric.count}/{metric.population})
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{metric.threshold}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              metric.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                            }`}
+                          >
+                            {metric.passed ? 'Pass' : 'Fail'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          {metric.offendingTaskIds.length > 0 ? (
+                            <button
+                              onClick={() =>
+                                setExpandedMetric(expandedMetric === metric.id ? null : metric.id)
+                              }
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              {expandedMetric === metric.id ? 'Hide' : 'Show'} {metric.offendingTaskIds.length}
+                            </button>
+                          ) : (
+                            <span className="text-gray-700">—</span>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedMetric === metric.id && (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-3 bg-gray-50">
+                            <ul className="text-sm text-gray-900 grid grid-cols-1 md:grid-cols-2 gap-1">
+                              {metric.offendingTaskIds.map((id) => (
+                                <li key={id}>
+                                  <span className="font-medium">{id}</span>: {taskName(id)}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg border border-gray-200">
+              <h3 className="text-lg font-semibold mb-4 text-gray-900">Float Diagnostics</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Task</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Early Start</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Early Finish</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Total Float</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {assessment.cpm.activities.map((a) => (
+                      <tr key={a.activityId} className={a.critical ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                          {a.activityId}: {taskName(a.activityId)}
+                          {a.critical && <span className="ml-2 text-xs text-red-700 font-medium">critical</span>}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">day {a.earlyStart.toFixed(0)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">day {a.earlyFinish.toFixed(0)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{a.totalFloat.toFixed(0)} days</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
 }
-
-
-
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  ReferenceLine,
+} from 'recharts';
+import { DistributionSummary } from '@/lib/risk-analysis/types';
+import { valueAtConfidence } from '@/lib/risk-analysis/monte-carlo';
+
+interface DistributionChartProps {
+  title: string;
+  unit?: string; // Suffix for values, e.g. " days"
+  decimals?: number;
+  distribution: DistributionSummary;
+  target?: { label: string; value: number }; // Deadline or budget marker
+}
+
+export default function DistributionChart({
+  title,
+  unit = '',
+  decimals = 1,
+  distribution,
+  target,
+}: DistributionChartProps) {
+  const [confidence, setConfidence] = useState(80);
+
+  const format = (value: number) => `${value.toFixed(decimals)}${unit}`;
+
+  const histogramData = distribution.histogram.map((bin) => ({
+    mid: (bin.start + bin.end) / 2,
+    start: bin.start,
+    end: bin.end,
+    frequency: Math.round(bin.frequency * 1000) / 10,
+  }));
+
+  const cdfData = distribution.cdf.map((point) => ({
+    value: point.value,
+    percentile: point.percentile,
+  }));
+
+  const lookupValue = valueAtConfidence(distribution.cdf, confidence);
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-900">
+          Confidence
+          <input
+            type="number"
+            value={confidence}
+            onChange={(e) => setConfidence(Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)))}
+            min="0"
+            max="100"
+            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+          />
+          % → <span className="font-bold">{format(lookupValue)}</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-medium mb-2 text-gray-900">Histogram</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={histogramData} barCategoryGap={1}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="mid"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(v: number) => v.toFixed(decimals)}
+              />
+              <YAxis unit="%" />
+              <Tooltip
+                labelFormatter={(_, payload) => {
+                  const bin = payload?.[0]?.payload;
+                  return bin ? `${format(bin.start)} – ${format(bin.end)}` : '';
+                }}
+                formatter={(value) => [`${value}%`, 'Iterations']}
+              />
+              <Bar dataKey="frequency" fill="#3b82f6" />
+              <ReferenceLine x={distribution.percentiles.p50} stroke="#6b7280" strokeDasharray="4 4" label="P50" />
+              <ReferenceLine x={distribution.percentiles.p90} stroke="#6b7280" strokeDasharray="4 4" label="P90" />
+              {target && (
+                <ReferenceLine
+                  x={target.value}
+                  stroke="#dc2626"
+                  strokeWidth={2}
+                  ifOverflow="extendDomain"
+                  label={{ value: target.label, fill: '#dc2626', position: 'top' }}
+                />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-2 text-gray-900">S-Curve (Cumulative Probability)</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={cdfData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="value"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(v: number) => v.toFixed(decimals)}
+              />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip
+                labelFormatter={(v) => format(Number(v))}
+                formatter={(value) => [`P${value}`, 'Confidence']}
+              />
+              <Line type="monotone" dataKey="percentile" stroke="#3b82f6" strokeWidth={2} dot={false} />
+              <ReferenceLine y={confidence} stroke="#6b7280" strokeDasharray="4 4" />
+              {target && (
+                <ReferenceLine
+                  x={target.value}
+                  stroke="#dc2626"
+                  strokeWidth={2}
+                  ifOverflow="extendDomain"
+                  label={{ value: target.label, fill: '#dc2626', position: 'top' }}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DraftSummary, ProjectFile } from '@/lib/risk-analysis/types';
+import {
+  clearAllDrafts,
+  deleteDraft,
+  isDraftStorageAvailable,
+  listDrafts,
+  loadDraft,
+  saveDraft,
+} from '@/lib/risk-analysis/drafts';
+
+interface DraftManagerProps {
+  buildFile: () => ProjectFile; // Current wizard state as a project file
+  onLoad: (file: ProjectFile) => void;
+  onClearAll: () => void; // Called after the autosave and drafts are removed
+  lastAutosavedAt: string | null;
+}
+
+export default function DraftManager({ buildFile, onLoad, onClearAll, lastAutosavedAt }: DraftManagerProps) {
+  const [available, setAvailable] = useState(false);
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Storage is only readable in the browser, after hydration
+  useEffect(() => {
+    setAvailable(isDraftStorageAvailable());
+    setDrafts(listDrafts());
+  }, []);
+
+  if (!available) return null;
+
+  const handleSave = () => {
+    const name = draftName.trim();
+    if (!name) return;
+    if (
+      drafts.some((d) => d.name === name) &&
+      !confirm(`A draft named "${name}" already exists. Overwrite it?`)
+    ) {
+      return;
+    }
+    try {
+      saveDraft(name, buildFile());
+      setDrafts(listDrafts());
+      setDraftName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save draft');
+    }
+  };
+
+  const handleLoad = (draft: DraftSummary) => {
+    const file = loadDraft(draft.id);
+    if (!file) {
+      setError(`Draft "${draft.name}" could not be read`);
+      return;
+    }
+    if (!confirm(`Load draft "${draft.name}"? Unsaved changes to the current session will be replaced.`)) {
+      return;
+    }
+    setError(null);
+    onLoad(file);
+  };
+
+  const handleDelete = (draft: DraftSummary) => {
+    if (!confirm(`Delete draft "${draft.name}"?`)) return;
+    deleteDraft(draft.id);
+    setDrafts(listDrafts());
+  };
+
+  const handleClearAll = () => {
+    if (!confirm('Delete the autosaved session and all named drafts from this browser?')) return;
+    clearAllDrafts();
+    setDrafts([]);
+    setError(null);
+    onClearAll();
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">
+          {lastAutosavedAt
+            ? `Autosaved at ${new Date(lastAutosavedAt).toLocaleTimeString()}`
+            : 'Changes are autosaved in this browser'}
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-blue-600 hover:text-blue-800 font-medium"
+        >
+          {expanded ? 'Hide' : 'Show'} Drafts ({drafts.length})
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 p-4 bg-white border border-gray-200 rounded-lg">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Draft name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-black"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!draftName.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              Save Draft
+            </button>
+          </div>
+
+          {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+          {drafts.length === 0 ? (
+            <p className="mt-3 text-sm text-gray-600">No named drafts yet.</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-100">
+              {drafts.map((draft) => (
+                <li key={draft.id} className="py-2 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{draft.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {new Date(draft.savedAt).toLocaleString()} · {draft.activityCount} activities ·{' '}
+                      {draft.riskCount} risks
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    <button onClick={() => handleLoad(draft)} className="text-blue-600 hover:text-blue-800">
+                      Load
+                    </button>
+                    <button onClick={() => handleDelete(draft)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-3 pt-3 border-t border-gray-200 text-right">
+            <button onClick={handleClearAll} className="text-sm text-red-600 hover:text-red-800">
+              Clear all saved data
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
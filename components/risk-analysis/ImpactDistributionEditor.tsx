@@ -0,0 +1,195 @@
+'use client';
+
+import {
+  DiscreteOutcome,
+  ImpactDistribution,
+  ImpactDistributionType,
+  RiskType,
+} from '@/lib/risk-analysis/types';
+import {
+  IMPACT_DISTRIBUTION_LABELS,
+  impactDistributionMean,
+} from '@/lib/risk-analysis/distributions';
+import { validateImpactDistribution } from '@/lib/risk-analysis/validation';
+
+interface ImpactDistributionEditorProps {
+  label: string;
+  impactPercent: number; // Point estimate, used to seed a new distribution
+  riskType?: RiskType; // Opportunities take negative impacts
+  distribution?: ImpactDistribution;
+  onChange: (distribution: ImpactDistribution | undefined) => void;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Starting values for a newly selected distribution type, spread around the point estimate
+ * Negative (opportunity) estimates spread the same way, mirrored
+ */
+function initialDistribution(type: ImpactDistributionType, impactPercent: number): ImpactDistribution {
+  const spread = (low: number, high: number) => {
+    const a = round(impactPercent * low);
+    const b = round(impactPercent * high);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  };
+  switch (type) {
+    case 'triangular':
+    case 'pert':
+      return { type, ...spread(0.5, 2), mostLikely: impactPercent };
+    case 'uniform':
+      return { type, ...spread(0.5, 1.5) };
+    case 'lognormal':
+      return { type, mean: impactPercent, stdDev: round(Math.abs(impactPercent) * 0.5) };
+    case 'discrete':
+      return {
+        type,
+        outcomes: [
+          { value: impactPercent, probability: 80 },
+          { value: round(impactPercent * 3), probability: 20 },
+        ],
+      };
+  }
+}
+
+export default function ImpactDistributionEditor({
+  label,
+  impactPercent,
+  riskType = 'threat',
+  distribution,
+  onChange,
+}: ImpactDistributionEditorProps) {
+  const errors = distribution ? validateImpactDistribution(distribution, label, riskType) : [];
+
+  const updateField = (field: 'min' | 'mostLikely' | 'max' | 'mean' | 'stdDev', value: string) => {
+    if (!distribution) return;
+    onChange({ ...distribution, [field]: value === '' ? undefined : parseFloat(value) });
+  };
+
+  const updateOutcome = (index: number, field: keyof DiscreteOutcome, value: string) => {
+    if (!distribution) return;
+    const outcomes = [...(distribution.outcomes ?? [])];
+    outcomes[index] = { ...outcomes[index], [field]: parseFloat(value) || 0 };
+    onChange({ ...distribution, outcomes });
+  };
+
+  const addOutcome = () => {
+    if (!distribution) return;
+    onChange({ ...distribution, outcomes: [...(distribution.outcomes ?? []), { value: 0, probability: 0 }] });
+  };
+
+  const removeOutcome = (index: number) => {
+    if (!distribution) return;
+    onChange({ ...distribution, outcomes: (distribution.outcomes ?? []).filter((_, i) => i !== index) });
+  };
+
+  const numberInput = (
+    field: 'min' | 'mostLikely' | 'max' | 'mean' | 'stdDev',
+    fieldLabel: string
+  ) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-900 mb-1">{fieldLabel}</label>
+      <input
+        type="number"
+        value={distribution?.[field] ?? ''}
+        onChange={(e) => updateField(field, e.target.value)}
+        className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-3 bg-white rounded border border-gray-300">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-900">{label}</span>
+        <select
+          value={distribution?.type ?? ''}
+          onChange={(e) =>
+            onChange(
+              e.target.value === ''
+                ? undefined
+                : initialDistribution(e.target.value as ImpactDistributionType, impactPercent)
+            )
+          }
+          className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+        >
+          <option value="">Default (triangular ±20%)</option>
+          {(Object.keys(IMPACT_DISTRIBUTION_LABELS) as ImpactDistributionType[]).map((type) => (
+            <option key={type} value={type}>
+              {IMPACT_DISTRIBUTION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {distribution && (distribution.type === 'triangular' || distribution.type === 'pert') && (
+        <div className="grid grid-cols-3 gap-2">
+          {numberInput('min', 'Min %')}
+          {numberInput('mostLikely', 'Most Likely %')}
+          {numberInput('max', 'Max %')}
+        </div>
+      )}
+
+      {distribution?.type === 'uniform' && (
+        <div className="grid grid-cols-2 gap-2">
+          {numberInput('min', 'Min %')}
+          {numberInput('max', 'Max %')}
+        </div>
+      )}
+
+      {distribution?.type === 'lognormal' && (
+        <div className="grid grid-cols-2 gap-2">
+          {numberInput('mean', 'Mean %')}
+          {numberInput('stdDev', 'Std Dev %')}
+        </div>
+      )}
+
+      {distribution?.type === 'discrete' && (
+        <div className="space-y-2">
+          {(distribution.outcomes ?? []).map((outcome, idx) => (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-5">
+                <label className="block text-xs font-medium text-gray-900 mb-1">Impact %</label>
+                <input
+                  type="number"
+                  value={outcome.value}
+                  onChange={(e) => updateOutcome(idx, 'value', e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                />
+              </div>
+              <div className="col-span-5">
+                <label className="block text-xs font-medium text-gray-900 mb-1">Probability %</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={outcome.probability}
+                  onChange={(e) => updateOutcome(idx, 'probability', e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                />
+              </div>
+              <div className="col-span-2">
+                <button onClick={() => removeOutcome(idx)} className="text-sm text-red-600 hover:text-red-800">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          <button onClick={addOutcome} className="text-sm text-blue-600 hover:text-blue-800">
+            + Add Outcome
+          </button>
+        </div>
+      )}
+
+      {distribution && errors.length === 0 && (
+        <p className="mt-2 text-xs text-gray-700">
+          Mean {impactDistributionMean(distribution).toFixed(1)}% (point estimate {impactPercent}%)
+        </p>
+      )}
+      {errors.map((error, idx) => (
+        <p key={idx} className="mt-2 text-xs text-red-700">
+          {error.message}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ReferenceDot,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  AnalysisOutput,
+  Input,
+  MonteCarloWorkerMessage,
+  PortfolioObjective,
+  PortfolioOptions,
+  PortfolioP80Request,
+  PortfolioResult,
+  PortfolioSelection,
+} from '@/lib/risk-analysis/types';
+import {
+  choosePortfolioByP80,
+  defaultCostPerDay,
+  optimizeMitigationPortfolio,
+  planP80Portfolio,
+} from '@/lib/risk-analysis/portfolio';
+
+interface PortfolioOptimizerProps {
+  input: Input;
+  analysisOutput: AnalysisOutput;
+  onApply: (selections: PortfolioSelection[]) => void;
+}
+
+export default function PortfolioOptimizer({ input, analysisOutput, onApply }: PortfolioOptimizerProps) {
+  const [budget, setBudget] = useState('');
+  const [objective, setObjective] = useState<PortfolioObjective>('expectedImpact');
+  const [costPerDay, setCostPerDay] = useState('');
+  const [result, setResult] = useState<PortfolioResult | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop a running evaluation when the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const suggestedCostPerDay = defaultCostPerDay(input, analysisOutput);
+  const budgetValue = parseFloat(budget);
+
+  const stopEvaluation = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // P80 portfolios are simulated in the Monte Carlo worker; the baseline goes first
+  const startP80Evaluation = (options: PortfolioOptions) => {
+    const plan = planP80Portfolio(input, analysisOutput, options);
+    const worker = new Worker(new URL('../../lib/risk-analysis/monte-carlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    setProgress({ completed: 0, total: (plan.candidates.length + 1) * plan.iterations });
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+      if (message.type === 'portfolioDone') {
+        const [baselineP80Cost, ...p80Costs] = message.p80Costs;
+        setResult(choosePortfolioByP80(plan, p80Costs, baselineP80Cost));
+      } else if (message.type === 'error') {
+        alert(`Portfolio simulation failed: ${message.message}`);
+      }
+      stopEvaluation();
+    };
+    worker.onerror = (event) => {
+      alert(`Portfolio simulation failed: ${event.message}`);
+      stopEvaluation();
+    };
+    const request: PortfolioP80Request = {
+      type: 'portfolioP80',
+      input,
+      portfolios: [[], ...plan.candidates.map((point) => point.selections)],
+      iterations: plan.iterations,
+      seed: plan.seed,
+    };
+    worker.postMessage(request);
+  };
+
+  const handleOptimize = () => {
+    if (isNaN(budgetValue) || budgetValue < 0) return;
+    stopEvaluation();
+    const options: PortfolioOptions = {
+      budget: budgetValue,
+      objective,
+      costPerDay: costPerDay.trim() === '' ? undefined : parseFloat(costPerDay) || 0,
+    };
+    // Without Worker support the P80 simulations run inline
+    if (objective === 'p80Cost' && typeof Worker !== 'undefined') {
+      setResult(null);
+      startP80Evaluation(options);
+    } else {
+      setResult(optimizeMitigationPortfolio(input, analysisOutput, options));
+    }
+  };
+
+  const handleApply = () => {
+    if (!result || result.best.selections.length === 0) return;
+    if (
+      !confirm(
+        'Replace the selected risks\' probability and impacts with their residual values and re-run the analysis?'
+      )
+    ) {
+      return;
+    }
+    onApply(result.best.selections);
+    setResult(null);
+  };
+
+  const mitigationLabel = (selection: PortfolioSelection) => {
+    const risk = input.risks.find((r) => r.id === selection.riskId);
+    const mitigation = risk?.mitigations?.find((m) => m.id === selection.mitigationId);
+    return mitigation ? mitigation.description : selection.mitigationId;
+  };
+
+  const frontierData = result?.frontier.map((p) => ({
+    cost: Math.round(p.cost * 100) / 100,
+    benefit: Math.round(p.benefit * 100) / 100,
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <h3 className="text-lg font-semibold mb-2 text-gray-900">Mitigation Portfolio</h3>
+      <p className="text-sm text-gray-700 mb-4">
+        Choose which mitigations to fund (at most one per risk). Benefit = expected cost saved + cost per day ×
+        expected days saved.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-900 mb-1">Mitigation budget</label>
+          <input
+            type="number"
+            min="0"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-900 mb-1">Objective</label>
+          <select
+            value={objective}
+            onChange={(e) => setObjective(e.target.value as PortfolioObjective)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+          >
+            <option value="expectedImpact">Reduce expected cost + time impact</option>
+            <option value="p80Cost">Reduce P80 total cost (simulated)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-900 mb-1">Cost per day</label>
+          <input
+            type="number"
+            min="0"
+            value={costPerDay}
+            onChange={(e) => setCostPerDay(e.target.value)}
+            placeholder={suggestedCostPerDay.toFixed(2)}
+            title="Leave empty to use the plan's average daily cost"
+            className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+          />
+        </div>
+        <button
+          onClick={handleOptimize}
+          disabled={isNaN(budgetValue) || budgetValue < 0 || progress !== null}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          Optimize
+        </button>
+      </div>
+
+      {progress && (
+        <div className="mb-4 flex items-center gap-4">
+          <div className="flex-1 h-2 bg-blue-100 rounded">
+            <div
+              className="h-2 bg-blue-600 rounded"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+          <span className="text-sm text-blue-900">
+            Simulating portfolios: {progress.completed.toLocaleString()} / {progress.total.toLocaleString()}{' '}
+            iterations
+          </span>
+          <button
+            onClick={stopEvaluation}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {result && frontierData && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-900">Spend</p>
+              <p className="text-lg font-bold text-gray-900">
+                {result.best.cost.toFixed(2)} <span className="text-sm font-normal">of {result.budget.toFixed(2)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-900">Expected Cost Saved</p>
+              <p className="text-lg font-bold text-gray-900">{result.best.expectedCostReduction.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-900">Expected Days Saved</p>
+              <p className="text-lg font-bold text-gray-900">{result.best.expectedTimeReduction.toFixed(2)}</p>
+            </div>
+            {result.objective === 'p80Cost' && result.baselineP80Cost !== undefined ? (
+              <div>
+                <p className="text-sm text-gray-900">P80 Total Cost</p>
+                <p className="text-lg font-bold text-gray-900">
+                  {result.baselineP80Cost.toFixed(2)} → {result.best.p80Cost?.toFixed(2)}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-sm text-gray-900">Benefit</p>
+                <p className="text-lg font-bold text-gray-900">{result.best.benefit.toFixed(2)}</p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-medium mb-2 text-gray-900">Efficient Frontier</h4>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={frontierData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="cost" type="number" domain={[0, 'dataMax']} name="Spend" />
+                <YAxis />
+                <Tooltip
+                  labelFormatter={(v) => `Spend ${Number(v).toFixed(2)}`}
+                  formatter={(value) => [value, 'Benefit']}
+                />
+                <Line type="stepAfter" dataKey="benefit" stroke="#3b82f6" strokeWidth={2} />
+                <ReferenceLine
+                  x={result.budget}
+                  stroke="#dc2626"
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                  label={{ value: 'Budget', fill: '#dc2626', position: 'top' }}
+                />
+                <ReferenceDot x={result.best.cost} y={result.best.benefit} r={6} fill="#10b981" stroke="none" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {result.best.selections.length === 0 ? (
+            <p className="text-sm text-gray-700">No mitigation fits within this budget.</p>
+          ) : (
+            <div>
+              <h4 className="font-medium mb-2 text-gray-900">Selected Mitigations</h4>
+              <ul className="space-y-1 text-sm text-gray-900 mb-4">
+                {result.best.selections.map((s) => (
+                  <li key={`${s.riskId}-${s.mitigationId}`}>
+                    <span className="font-medium">{s.riskId}</span> {s.mitigationId}: {mitigationLabel(s)}
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={handleApply}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium"
+              >
+                Apply and Re-run Analysis
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
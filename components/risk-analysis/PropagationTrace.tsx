@@ -0,0 +1,72 @@
+'use client';
+
+import { PropagationResult } from '@/lib/risk-analysis/types';
+
+interface PropagationTraceProps {
+  result: PropagationResult;
+}
+
+export default function PropagationTrace({ result }: PropagationTraceProps) {
+  const inputs = result.inputs ?? [];
+  const paths = result.contributingPaths ?? [];
+  const concurrent = result.concurrentRiskIds ?? [];
+
+  if (inputs.length === 0 && concurrent.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <p className="text-sm font-medium text-gray-900 mb-2">
+        Propagation: {result.originalProbability.toFixed(1)}% → {result.finalProbability.toFixed(1)}%
+      </p>
+      {result.cycle && (
+        <p className="mb-2 text-sm text-yellow-800">
+          On a dependency cycle with {result.cycle.filter((id) => id !== result.riskId).join(', ')}; the
+          probability is the converged fixed point.
+        </p>
+      )}
+      {inputs.length > 0 && (
+        <table className="w-full text-sm mb-2">
+          <thead>
+            <tr className="text-left text-xs text-gray-700">
+              <th className="pb-1">Depends on</th>
+              <th className="pb-1">Strength</th>
+              <th className="pb-1">Source probability</th>
+              <th className="pb-1">Transmitted</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-900">
+            {inputs.map((input) => (
+              <tr key={input.riskId}>
+                <td>{input.riskId}</td>
+                <td>{input.strength.toFixed(2)}</td>
+                <td>{input.sourceProbability.toFixed(1)}%</td>
+                <td>{input.transmittedProbability.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {paths.length > 0 && (
+        <div className="mb-2">
+          <p className="text-xs text-gray-700 mb-1">
+            Contributing paths (origin probability × strengths along the path):
+          </p>
+          <ul className="space-y-0.5 text-sm text-gray-900">
+            {paths.map((path) => (
+              <li key={path.riskIds.join('>')}>
+                {path.riskIds.join(' → ')}{' '}
+                <span className="text-gray-700">({path.contribution.toFixed(1)}%)</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {concurrent.length > 0 && (
+        <p className="text-sm text-gray-700">
+          Occurs together with {concurrent.join(', ')} (concurrent links change joint occurrence, not this
+          probability)
+        </p>
+      )}
+    </div>
+  );
+}
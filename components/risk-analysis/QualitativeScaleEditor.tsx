@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QualitativeScales, ScaleBand } from '@/lib/risk-analysis/types';
+import { DEFAULT_QUALITATIVE_SCALES } from '@/lib/risk-analysis/qualitative';
+import { validateQualitativeScales } from '@/lib/risk-analysis/validation';
+
+interface QualitativeScaleEditorProps {
+  scales: QualitativeScales;
+  onChange: (scales: QualitativeScales) => void;
+}
+
+const SCALES: { id: keyof QualitativeScales; title: string; unit: string }[] = [
+  { id: 'probability', title: 'Probability', unit: '%' },
+  { id: 'impact', title: 'Impact (time or cost)', unit: '% of affected activities' },
+];
+
+export default function QualitativeScaleEditor({ scales, onChange }: QualitativeScaleEditorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<QualitativeScales>(scales);
+
+  // Start from the applied scales whenever they change (e.g. a project was opened)
+  useEffect(() => setDraft(scales), [scales]);
+
+  const errors = validateQualitativeScales(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(scales);
+
+  const updateBand = (scale: keyof QualitativeScales, index: number, changes: Partial<ScaleBand>) => {
+    setDraft({
+      ...draft,
+      [scale]: draft[scale].map((band, i) => (i === index ? { ...band, ...changes } : band)),
+    });
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-900">
+          <span className="font-medium">Qualitative scales:</span>{' '}
+          {scales.probability.map((b) => b.label).join(' / ')}
+        </p>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          {expanded ? 'Hide' : 'Edit'} Scales
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {SCALES.map((scale) => (
+              <div key={scale.id}>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">
+                  {scale.title} <span className="font-normal text-gray-700">({scale.unit})</span>
+                </h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-700">
+                      <th className="pb-1">Band</th>
+                      <th className="pb-1">Up to</th>
+                      <th className="pb-1" title="Value used when a risk is entered with this band">
+                        Value
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft[scale.id].map((band, i) => (
+                      <tr key={i}>
+                        <td className="pr-2 py-0.5">
+                          <input
+                            type="text"
+                            value={band.label}
+                            onChange={(e) => updateBand(scale.id, i, { label: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                          />
+                        </td>
+                        <td className="pr-2 py-0.5">
+                          {i === draft[scale.id].length - 1 ? (
+                            <span className="text-gray-700">and above</span>
+                          ) : (
+                            <input
+                              type="number"
+                              min="0"
+                              value={band.max}
+                              onChange={(e) => updateBand(scale.id, i, { max: parseFloat(e.target.value) || 0 })}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                            />
+                          )}
+                        </td>
+                        <td className="py-0.5">
+                          <input
+                            type="number"
+                            min="0"
+                            value={band.value}
+                            onChange={(e) => updateBand(scale.id, i, { value: parseFloat(e.target.value) || 0 })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-700 list-disc list-inside">
+              {errors.map((e, i) => (
+                <li key={i}>{e.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange(draft)}
+              disabled={!changed || errors.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              Apply Scales
+            </button>
+            <button
+              onClick={() => setDraft(DEFAULT_QUALITATIVE_SCALES)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+            >
+              Reset to Defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
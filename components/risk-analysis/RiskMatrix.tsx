@@ -0,0 +1,79 @@
+'use client';
+
+import { MatrixPlacement, QualitativeScales } from '@/lib/risk-analysis/types';
+import { MATRIX_SIZE, matrixCellSeverity } from '@/lib/risk-analysis/qualitative';
+
+interface RiskMatrixProps {
+  title: string;
+  placements: MatrixPlacement[];
+  scales: QualitativeScales;
+  propagated: boolean; // Place by propagated rather than original probability
+  highlight?: Set<string>; // Risk IDs to outline, e.g. those that changed band
+}
+
+function cellColor(severity: number): string {
+  if (severity >= 16) return 'bg-red-500';
+  if (severity >= 10) return 'bg-orange-400';
+  if (severity >= 5) return 'bg-yellow-300';
+  return 'bg-green-300';
+}
+
+export default function RiskMatrix({ title, placements, scales, propagated, highlight }: RiskMatrixProps) {
+  const bands = Array.from({ length: MATRIX_SIZE }, (_, i) => i);
+
+  const risksInCell = (probabilityBand: number, impactBand: number) =>
+    placements.filter(
+      (p) =>
+        p.impactBand === impactBand &&
+        (propagated ? p.propagatedProbabilityBand : p.probabilityBand) === probabilityBand
+    );
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2 text-gray-900">{title}</h4>
+      <table className="border-collapse">
+        <tbody>
+          {/* Highest probability on top */}
+          {[...bands].reverse().map((probabilityBand) => (
+            <tr key={probabilityBand}>
+              <th className="pr-2 text-right text-xs font-normal text-gray-900 whitespace-nowrap">
+                {scales.probability[probabilityBand].label}
+              </th>
+              {bands.map((impactBand) => (
+                <td
+                  key={impactBand}
+                  className={`w-20 h-16 border border-white align-top p-1 ${cellColor(
+                    matrixCellSeverity(probabilityBand, impactBand)
+                  )}`}
+                >
+                  <div className="flex flex-wrap gap-1">
+                    {risksInCell(probabilityBand, impactBand).map((p) => (
+                      <span
+                        key={p.riskId}
+                        title={p.type === 'opportunity' ? 'Opportunity' : 'Threat'}
+                        className={`px-1 rounded text-xs font-medium ${
+                          p.type === 'opportunity' ? 'bg-green-700 text-white' : 'bg-white text-gray-900'
+                        } ${highlight?.has(p.riskId) ? 'ring-2 ring-blue-700' : ''}`}
+                      >
+                        {p.riskId}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr>
+            <th />
+            {bands.map((impactBand) => (
+              <th key={impactBand} className="pt-1 text-xs font-normal text-gray-900">
+                {scales.impact[impactBand].label}
+              </th>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <p className="mt-1 text-xs text-gray-700">Rows: probability · columns: impact</p>
+    </div>
+  );
+}
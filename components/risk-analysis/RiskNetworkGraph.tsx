@@ -0,0 +1,388 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_RELATION_STRENGTH, RelationType, Risk, RiskRelation } from '@/lib/risk-analysis/types';
+import { analyzeRiskNetwork, findDependencyCycles } from '@/lib/risk-analysis/graph';
+
+interface RiskNetworkGraphProps {
+  risks: Risk[];
+  scores?: Record<string, number>; // Behavior score per risk; node size falls back to centrality
+  onRisksChange?: (risks: Risk[]) => void; // Omit for a read-only graph
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Edge {
+  sourceId: string;
+  targetId: string;
+  relation: RiskRelation;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const MIN_RADIUS = 14;
+const MAX_RADIUS = 32;
+// Risks at least this central (and with two or more links) are marked as hubs
+const HUB_CENTRALITY = 75;
+
+function circleLayout(ids: string[]): Record<string, Point> {
+  const radius = Math.min(WIDTH, HEIGHT) / 2 - MAX_RADIUS - 20;
+  return Object.fromEntries(
+    ids.map((id, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(1, ids.length) - Math.PI / 2;
+      return [id, { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle) }];
+    })
+  );
+}
+
+export default function RiskNetworkGraph({ risks, scores, onRisksChange }: RiskNetworkGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const editable = onRisksChange !== undefined;
+  const [positions, setPositions] = useState<Record<string, Point>>(() => circleLayout(risks.map((r) => r.id)));
+  const [mode, setMode] = useState<'move' | 'link'>('move');
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [linking, setLinking] = useState<{ sourceId: string; pointer: Point } | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<{ sourceId: string; targetId: string } | null>(null);
+
+  // New risks are laid out on the circle; risks keep their position once dragged
+  useEffect(() => {
+    setPositions((prev) => {
+      const layout = circleLayout(risks.map((r) => r.id));
+      return Object.fromEntries(risks.map((r) => [r.id, prev[r.id] ?? layout[r.id]]));
+    });
+  }, [risks]);
+
+  // Network analytics depend only on the risks, not on node positions, so dragging does not redo them
+  const { edges, cycleIds, centrality } = useMemo(() => {
+    const riskIds = new Set(risks.map((r) => r.id));
+    const edges: Edge[] = risks.flatMap((risk) =>
+      risk.relatedRisks
+        .filter((relation) => riskIds.has(relation.riskId) && relation.riskId !== risk.id)
+        .map((relation) => ({ sourceId: risk.id, targetId: relation.riskId, relation }))
+    );
+    return {
+      edges,
+      cycleIds: new Set(findDependencyCycles(risks).flat()),
+      centrality: Object.fromEntries(analyzeRiskNetwork(risks).map((m) => [m.riskId, m.centrality])),
+    };
+  }, [risks]);
+
+  const degree = (id: string) => edges.filter((e) => e.sourceId === id || e.targetId === id).length;
+  const isHub = (id: string) => degree(id) >= 2 && centrality[id] >= HUB_CENTRALITY;
+  const radius = (id: string) => {
+    const size = scores?.[id] ?? centrality[id] ?? 0;
+    return MIN_RADIUS + ((MAX_RADIUS - MIN_RADIUS) * Math.max(0, Math.min(100, size))) / 100;
+  };
+
+  const toSvgPoint = (event: React.PointerEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const nodeAt = (point: Point) =>
+    risks.find((r) => {
+      const p = positions[r.id];
+      return p && Math.hypot(p.x - point.x, p.y - point.y) <= radius(r.id);
+    });
+
+  const updateRelation = (sourceId: string, targetId: string, change: Partial<RiskRelation> | null) => {
+    if (!onRisksChange) return;
+    onRisksChange(
+      risks.map((risk) => {
+        if (risk.id !== sourceId) return risk;
+        const relatedRisks =
+          change === null
+            ? risk.relatedRisks.filter((r) => r.riskId !== targetId)
+            : risk.relatedRisks.map((r) => (r.riskId === targetId ? { ...r, ...change } : r));
+        return { ...risk, relatedRisks };
+      })
+    );
+  };
+
+  const createRelation = (sourceId: string, targetId: string) => {
+    if (!onRisksChange || sourceId === targetId) return;
+    const source = risks.find((r) => r.id === sourceId);
+    if (source && !source.relatedRisks.some((r) => r.riskId === targetId)) {
+      onRisksChange(
+        risks.map((risk) =>
+          risk.id === sourceId
+            ? {
+                ...risk,
+                relatedRisks: [
+                  ...risk.relatedRisks,
+                  { riskId: targetId, relationType: 'dependency', strength: DEFAULT_RELATION_STRENGTH },
+                ],
+              }
+            : risk
+        )
+      );
+    }
+    setSelectedEdge({ sourceId, targetId });
+  };
+
+  const handleNodePointerDown = (event: React.PointerEvent, id: string) => {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    if (editable && mode === 'link') {
+      setLinking({ sourceId: id, pointer: toSvgPoint(event) });
+    } else {
+      setDragging(id);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging) {
+      const point = toSvgPoint(event);
+      setPositions((prev) => ({
+        ...prev,
+        [dragging]: {
+          x: Math.max(MAX_RADIUS, Math.min(WIDTH - MAX_RADIUS, point.x)),
+          y: Math.max(MAX_RADIUS, Math.min(HEIGHT - MAX_RADIUS, point.y)),
+        },
+      }));
+    } else if (linking) {
+      setLinking({ ...linking, pointer: toSvgPoint(event) });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (linking) {
+      const target = nodeAt(toSvgPoint(event));
+      if (target) createRelation(linking.sourceId, target.id);
+    }
+    setDragging(null);
+    setLinking(null);
+  };
+
+  // Edge geometry: from the source's rim to the target's rim, bowed when both directions exist
+  const edgePath = (edge: Edge) => {
+    const from = positions[edge.sourceId];
+    const to = positions[edge.targetId];
+    if (!from || !to) return '';
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.max(1, Math.hypot(dx, dy));
+    const ux = dx / length;
+    const uy = dy / length;
+    const start = { x: from.x + ux * radius(edge.sourceId), y: from.y + uy * radius(edge.sourceId) };
+    const end = { x: to.x - ux * (radius(edge.targetId) + 4), y: to.y - uy * (radius(edge.targetId) + 4) };
+    const reverse = edges.some((e) => e.sourceId === edge.targetId && e.targetId === edge.sourceId);
+    const bow = reverse ? 30 : 0;
+    const control = { x: (start.x + end.x) / 2 - uy * bow, y: (start.y + end.y) / 2 + ux * bow };
+    return `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+  };
+
+  const selected = selectedEdge
+    ? edges.find((e) => e.sourceId === selectedEdge.sourceId && e.targetId === selectedEdge.targetId)
+    : undefined;
+
+  if (risks.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-700">
+          <span className="flex items-center gap-1">
+            <svg width="28" height="8">
+              <line x1="0" y1="4" x2="28" y2="4" stroke="#374151" strokeWidth="2" />
+            </svg>
+            dependency
+          </span>
+          <span className="flex items-center gap-1">
+            <svg width="28" height="8">
+              <line x1="0" y1="4" x2="28" y2="4" stroke="#7c3aed" strokeWidth="2" strokeDasharray="4 3" />
+            </svg>
+            concurrent
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full border-2 border-red-600" /> on a cycle
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full bg-amber-400" /> hub
+          </span>
+          <span>Size: {scores ? 'behavior score' : 'dependency centrality'}</span>
+        </div>
+        {editable && (
+          <div className="flex gap-1">
+            {(['move', 'link'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded text-sm font-medium ${
+                  mode === m ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {m === 'move' ? 'Move' : 'Link'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full bg-white border border-gray-200 rounded-lg select-none"
+        style={{ touchAction: 'none' }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerDown={() => setSelectedEdge(null)}
+      >
+        <defs>
+          <marker id="risk-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#374151" />
+          </marker>
+          <marker id="risk-arrow-cycle" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+          </marker>
+        </defs>
+
+        {edges.map((edge) => {
+          const dependency = edge.relation.relationType === 'dependency';
+          const onCycle = dependency && cycleIds.has(edge.sourceId) && cycleIds.has(edge.targetId);
+          const isSelected =
+            selectedEdge?.sourceId === edge.sourceId && selectedEdge?.targetId === edge.targetId;
+          const strength = edge.relation.strength ?? DEFAULT_RELATION_STRENGTH;
+          const d = edgePath(edge);
+          return (
+            <g key={`${edge.sourceId}-${edge.targetId}`}>
+              <path
+                d={d}
+                fill="none"
+                stroke={onCycle ? '#dc2626' : dependency ? '#374151' : '#7c3aed'}
+                strokeWidth={1 + strength * 5}
+                strokeDasharray={dependency ? undefined : '6 4'}
+                strokeOpacity={isSelected ? 1 : 0.7}
+                markerEnd={dependency ? `url(#${onCycle ? 'risk-arrow-cycle' : 'risk-arrow'})` : undefined}
+              />
+              {/* Wide transparent path so thin edges are easy to click */}
+              <path
+                d={d}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={14}
+                className="cursor-pointer"
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  setSelectedEdge({ sourceId: edge.sourceId, targetId: edge.targetId });
+                }}
+              >
+                <title>
+                  {edge.sourceId} → {edge.targetId}: {edge.relation.relationType}, strength {strength}
+                </title>
+              </path>
+              {isSelected && (
+                <path d={d} fill="none" stroke="#2563eb" strokeWidth={2} strokeDasharray="2 3" />
+              )}
+            </g>
+          );
+        })}
+
+        {linking && positions[linking.sourceId] && (
+          <line
+            x1={positions[linking.sourceId].x}
+            y1={positions[linking.sourceId].y}
+            x2={linking.pointer.x}
+            y2={linking.pointer.y}
+            stroke="#2563eb"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {risks.map((risk) => {
+          const p = positions[risk.id];
+          if (!p) return null;
+          const r = radius(risk.id);
+          return (
+            <g
+              key={risk.id}
+              transform={`translate(${p.x}, ${p.y})`}
+              className={editable && mode === 'link' ? 'cursor-crosshair' : 'cursor-move'}
+              onPointerDown={(e) => handleNodePointerDown(e, risk.id)}
+            >
+              {isHub(risk.id) && <circle r={r + 6} fill="#fbbf24" fillOpacity={0.5} />}
+              <circle
+                r={r}
+                fill={risk.type === 'opportunity' ? '#bbf7d0' : '#dbeafe'}
+                stroke={cycleIds.has(risk.id) ? '#dc2626' : risk.type === 'opportunity' ? '#16a34a' : '#2563eb'}
+                strokeWidth={cycleIds.has(risk.id) ? 3 : 1.5}
+              />
+              <text textAnchor="middle" dy="0.35em" fontSize="11" fontWeight="600" fill="#111827">
+                {risk.id}
+              </text>
+              <title>
+                {risk.id}: {risk.title} ({degree(risk.id)} links
+                {scores?.[risk.id] !== undefined ? `, score ${scores[risk.id].toFixed(1)}` : ''})
+              </title>
+            </g>
+          );
+        })}
+      </svg>
+
+      {editable && (
+        <p className="mt-1 text-xs text-gray-700">
+          Drag nodes to rearrange. In Link mode, drag from one risk to another to add a dependency; click an
+          edge to edit it.
+        </p>
+      )}
+
+      {selected && (
+        <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg flex flex-wrap items-center gap-4 text-sm text-gray-900">
+          <span className="font-medium">
+            {selected.sourceId} → {selected.targetId}
+          </span>
+          {editable ? (
+            <>
+              <select
+                value={selected.relation.relationType}
+                onChange={(e) =>
+                  updateRelation(selected.sourceId, selected.targetId, {
+                    relationType: e.target.value as RelationType,
+                  })
+                }
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+              >
+                <option value="dependency">Dependency</option>
+                <option value="concurrent">Concurrent</option>
+              </select>
+              <label className="flex items-center gap-2">
+                Strength
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={selected.relation.strength ?? DEFAULT_RELATION_STRENGTH}
+                  onChange={(e) =>
+                    updateRelation(selected.sourceId, selected.targetId, { strength: parseFloat(e.target.value) })
+                  }
+                />
+                <span className="w-10">{(selected.relation.strength ?? DEFAULT_RELATION_STRENGTH).toFixed(2)}</span>
+              </label>
+              <button
+                onClick={() => {
+                  updateRelation(selected.sourceId, selected.targetId, null);
+                  setSelectedEdge(null);
+                }}
+                className="text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </>
+          ) : (
+            <span>
+              {selected.relation.relationType}, strength {(selected.relation.strength ?? DEFAULT_RELATION_STRENGTH).toFixed(2)}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { ReactNode, useState } from 'react';
+import {
+  AnalysisOutput,
+  CombinationRule,
+  CombinedScenario,
+  Input,
+  ScenarioDefinition,
+} from '@/lib/risk-analysis/types';
+import { COMBINATION_RULES, evaluateScenario } from '@/lib/risk-analysis/scenarios';
+import { validateScenario } from '@/lib/risk-analysis/validation';
+
+interface ScenarioExplorerProps {
+  input: Input;
+  analysisOutput: AnalysisOutput;
+  scenarios: ScenarioDefinition[];
+  onScenariosChange: (scenarios: ScenarioDefinition[]) => void;
+}
+
+function ScenarioCard({ scenario, actions }: { scenario: CombinedScenario; actions?: ReactNode }) {
+  const rule = COMBINATION_RULES.find((r) => r.id === (scenario.rule ?? 'additive'));
+  const marginals = scenario.marginalContributions ?? [];
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {scenario.name ? `${scenario.name}: ` : 'Combined Scenario: '}
+            {scenario.riskIds.join(', ')}
+          </h3>
+          {rule && (
+            <p className="text-xs text-gray-700" title={rule.description}>
+              {rule.label}
+              {scenario.affectedActivityIds && ` · ${scenario.affectedActivityIds.length} affected activities`}
+            </p>
+          )}
+        </div>
+        {actions}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {scenario.jointProbability !== undefined && (
+          <div>
+            <p className="text-sm text-gray-900">Joint Probability</p>
+            <p className="text-xl font-bold text-gray-900">{scenario.jointProbability.toFixed(1)}%</p>
+          </div>
+        )}
+        <div>
+          <p className="text-sm text-gray-900">Combined Time Impact %</p>
+          <p className="text-xl font-bold text-gray-900">{scenario.combinedTimeImpactPercent.toFixed(1)}%</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-900">Combined Cost Impact %</p>
+          <p className="text-xl font-bold text-gray-900">{scenario.combinedCostImpactPercent.toFixed(1)}%</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-900">Expected Time Impact</p>
+          <p className="text-xl font-bold text-gray-900">{scenario.combinedExpectedTimeImpact.toFixed(2)} days</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-900">Expected Cost Impact</p>
+          <p className="text-xl font-bold text-gray-900">{scenario.combinedExpectedCostImpact.toFixed(2)}</p>
+        </div>
+      </div>
+      {scenario.addedDays !== undefined && scenario.addedCost !== undefined && (
+        <p className="mt-2 text-sm text-gray-700">
+          If all occur: {scenario.addedDays.toFixed(1)} days and {scenario.addedCost.toFixed(2)} added across{' '}
+          {scenario.affectedActivityIds?.join(', ') || 'no activities'}
+        </p>
+      )}
+      {marginals.length > 1 && (
+        <table className="mt-4 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-700">
+              <th className="pb-1">Risk</th>
+              <th className="pb-1" title="Scenario impact minus the scenario without this risk, if all occur">
+                Marginal days
+              </th>
+              <th className="pb-1">Marginal cost</th>
+              <th className="pb-1">Share of days</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-900">
+            {marginals.map((m) => (
+              <tr key={m.riskId}>
+                <td>{m.riskId}</td>
+                <td>{m.addedDays.toFixed(1)}</td>
+                <td>{m.addedCost.toFixed(2)}</td>
+                <td>
+                  {scenario.addedDays ? `${((m.addedDays / scenario.addedDays) * 100).toFixed(0)}%` : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function ScenarioExplorer({
+  input,
+  analysisOutput,
+  scenarios,
+  onScenariosChange,
+}: ScenarioExplorerProps) {
+  const [draft, setDraft] = useState<ScenarioDefinition>({ name: '', riskIds: [], rule: 'additive' });
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleRisk = (riskId: string) => {
+    const riskIds = draft.riskIds.includes(riskId)
+      ? draft.riskIds.filter((id) => id !== riskId)
+      : [...draft.riskIds, riskId];
+    setDraft({ ...draft, riskIds });
+  };
+
+  const handleSave = () => {
+    const errors = validateScenario(draft, input.risks);
+    if (errors.length > 0) {
+      setError(errors[0].message);
+      return;
+    }
+    const name = draft.name.trim();
+    if (
+      scenarios.some((s) => s.name === name) &&
+      !confirm(`A scenario named "${name}" already exists. Overwrite it?`)
+    ) {
+      return;
+    }
+    onScenariosChange([...scenarios.filter((s) => s.name !== name), { ...draft, name }]);
+    setError(null);
+  };
+
+  const handleDelete = (name: string) => {
+    if (!confirm(`Delete scenario "${name}"?`)) return;
+    onScenariosChange(scenarios.filter((s) => s.name !== name));
+  };
+
+  // Saved scenarios may name risks deleted since; evaluate only the risks that remain
+  const riskIds = new Set(input.risks.map((r) => r.id));
+  const evaluate = (definition: ScenarioDefinition) =>
+    evaluateScenario(
+      { ...definition, riskIds: definition.riskIds.filter((id) => riskIds.has(id)) },
+      input,
+      analysisOutput
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h3 className="text-lg font-semibold mb-2 text-gray-900">Scenario Builder</h3>
+        <p className="text-sm text-gray-700 mb-4">
+          Pick any risks to evaluate together. The joint probability treats their propagated probabilities as
+          independent; impacts apply to every activity any of them affects, combined by the chosen rule.
+        </p>
+        <div className="flex flex-wrap items-end gap-2 mb-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-900 mb-1">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="w-48 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-900 mb-1">Combination rule</label>
+            <select
+              value={draft.rule}
+              onChange={(e) => setDraft({ ...draft, rule: e.target.value as CombinationRule })}
+              title={COMBINATION_RULES.find((r) => r.id === draft.rule)?.description}
+              className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+            >
+              {COMBINATION_RULES.map((r) => (
+                <option key={r.id} value={r.id} title={r.description}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            Save Scenario
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3">
+          {input.risks.map((risk) => (
+            <label key={risk.id} className="flex items-center gap-1 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={draft.riskIds.includes(risk.id)}
+                onChange={() => toggleRisk(risk.id)}
+              />
+              {risk.id}
+              <span className="text-gray-700">{risk.title}</span>
+            </label>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+        {draft.riskIds.length > 0 && <ScenarioCard scenario={evaluate(draft)} />}
+      </div>
+
+      {scenarios.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Saved Scenarios</h3>
+          {scenarios.map((definition) => (
+            <ScenarioCard
+              key={definition.name}
+              scenario={evaluate(definition)}
+              actions={
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => {
+                      setDraft(definition);
+                      setError(null);
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(definition.name)}
+                    className="text-sm text-red-700 hover:text-red-900 font-medium"
+                  >
+                    Delete
+                  </button>
+                </div>
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {analysisOutput.combinedScenarios.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Top Risk Combinations</h3>
+          {analysisOutput.combinedScenarios.map((scenario, idx) => (
+            <ScenarioCard key={idx} scenario={scenario} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
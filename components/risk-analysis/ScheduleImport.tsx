@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { ScheduleImportResult } from '@/lib/risk-analysis/types';
+import { parseMspdi } from '@/lib/risk-analysis/mspdi';
+import { decodeXer, parseXer } from '@/lib/risk-analysis/xer';
+
+interface ScheduleImportProps {
+  onImport: (result: ScheduleImportResult) => void;
+  confirmReplace?: boolean; // Ask before replacing existing activities
+}
+
+export default function ScheduleImport({ onImport, confirmReplace = false }: ScheduleImportProps) {
+  const [report, setReport] = useState<ScheduleImportResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setShowDetails(false);
+    try {
+      // XER files are in a Windows code page rather than UTF-8
+      const result = file.name.toLowerCase().endsWith('.xer')
+        ? parseXer(decodeXer(await file.arrayBuffer()))
+        : parseMspdi(await file.text());
+      if (result.activities.length === 0) {
+        throw new Error('No tasks could be imported from this file');
+      }
+      if (
+        confirmReplace &&
+        !confirm('Importing replaces all current activities and clears risk assignments. Continue?')
+      ) {
+        return;
+      }
+      setError(null);
+      setReport(result);
+      onImport(result);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const issueCount = report ? report.skipped.length + report.warnings.length : 0;
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-900">Import Schedule</h3>
+          <p className="text-sm text-gray-700">
+            Load artifacts, activities and logic from a Microsoft Project XML (.xml) or Primavera P6 (.xer) file.
+          </p>
+        </div>
+        <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium cursor-pointer">
+          Import File
+          <input type="file" accept=".xml,.xer" onChange={handleFileChange} className="hidden" />
+        </label>
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-900">
+            {fileName}: {error}
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-3 p-3 bg-white border border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-900">
+            Imported {report.activities.filter((a) => a.level === 1).length} artifacts and{' '}
+            {report.activities.filter((a) => a.level === 2).length} activities from {fileName}.
+            {issueCount > 0 && (
+              <button
+                onClick={() => setShowDetails(!showDetails)}
+                className="ml-2 text-blue-600 hover:text-blue-800"
+              >
+                {showDetails ? 'Hide' : 'Show'} {issueCount} issue{issueCount !== 1 ? 's' : ''}
+              </button>
+            )}
+          </p>
+          {showDetails && (
+            <ul className="mt-2 text-sm text-gray-800 list-disc list-inside space-y-1">
+              {report.skipped.map((issue, idx) => (
+                <li key={`skipped-${idx}`}>
+                  Not imported: {issue.name} ({issue.sourceId}) — {issue.reason}
+                </li>
+              ))}
+              {report.warnings.map((warning, idx) => (
+                <li key={`warning-${idx}`}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
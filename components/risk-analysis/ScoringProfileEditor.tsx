@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CentralityMetric, ScoreComponent, ScoringProfile } from '@/lib/risk-analysis/types';
+import { CENTRALITY_METRICS, DEFAULT_SCORING_PROFILE, SCORE_COMPONENTS } from '@/lib/risk-analysis/scoring';
+import { validateScoringProfile } from '@/lib/risk-analysis/validation';
+import {
+  deleteScoringProfile,
+  isDraftStorageAvailable,
+  listScoringProfiles,
+  saveScoringProfile,
+} from '@/lib/risk-analysis/drafts';
+
+interface ScoringProfileEditorProps {
+  profile: ScoringProfile;
+  onChange: (profile: ScoringProfile) => void; // Takes effect on the next analysis run
+}
+
+export default function ScoringProfileEditor({ profile, onChange }: ScoringProfileEditorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [storageAvailable, setStorageAvailable] = useState(false);
+  const [savedProfiles, setSavedProfiles] = useState<ScoringProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Storage is only readable in the browser, after hydration
+  useEffect(() => {
+    setStorageAvailable(isDraftStorageAvailable());
+    setSavedProfiles(listScoringProfiles());
+  }, []);
+
+  const setWeight = (component: ScoreComponent, value: string) => {
+    onChange({
+      ...profile,
+      weights: { ...profile.weights, [component]: parseFloat(value) || 0 },
+    });
+  };
+
+  const handleSelect = (name: string) => {
+    const selected =
+      name === DEFAULT_SCORING_PROFILE.name
+        ? DEFAULT_SCORING_PROFILE
+        : savedProfiles.find((p) => p.name === name);
+    if (selected) {
+      setError(null);
+      onChange(selected);
+    }
+  };
+
+  const handleSave = () => {
+    const errors = validateScoringProfile(profile);
+    if (errors.length > 0) {
+      setError(errors[0].message);
+      return;
+    }
+    if (profile.name === DEFAULT_SCORING_PROFILE.name) {
+      setError('Choose a different name; the default profile cannot be overwritten');
+      return;
+    }
+    if (
+      savedProfiles.some((p) => p.name === profile.name) &&
+      !confirm(`A profile named "${profile.name}" already exists. Overwrite it?`)
+    ) {
+      return;
+    }
+    try {
+      saveScoringProfile(profile);
+      setSavedProfiles(listScoringProfiles());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save profile');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete scoring profile "${profile.name}"?`)) return;
+    deleteScoringProfile(profile.name);
+    setSavedProfiles(listScoringProfiles());
+    onChange(DEFAULT_SCORING_PROFILE);
+  };
+
+  const isSaved = savedProfiles.some((p) => p.name === profile.name);
+  const totalWeight = Object.values(profile.weights).reduce((sum, w) => sum + w, 0);
+
+  return (
+    <div className="mb-4 p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-900">
+          <span className="font-medium">Scoring profile:</span> {profile.name}
+        </p>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          {expanded ? 'Hide' : 'Edit'} Weights
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-900 mb-1">Load profile</label>
+              <select
+                value={isSaved || profile.name === DEFAULT_SCORING_PROFILE.name ? profile.name : ''}
+                onChange={(e) => handleSelect(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+              >
+                <option value="" disabled>
+                  (unsaved)
+                </option>
+                <option value={DEFAULT_SCORING_PROFILE.name}>{DEFAULT_SCORING_PROFILE.name}</option>
+                {savedProfiles.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-900 mb-1">Name</label>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => onChange({ ...profile, name: e.target.value })}
+                className="w-48 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+              />
+            </div>
+            {storageAvailable && (
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                Save Profile
+              </button>
+            )}
+            {storageAvailable && isSaved && (
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-gray-200 text-red-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+
+          <label className="flex items-center gap-2 text-sm text-gray-900">
+            Centrality metric
+            <select
+              value={profile.centralityMetric ?? 'degree'}
+              onChange={(e) => onChange({ ...profile, centralityMetric: e.target.value as CentralityMetric })}
+              title={CENTRALITY_METRICS.find((m) => m.id === (profile.centralityMetric ?? 'degree'))?.description}
+              className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+            >
+              {CENTRALITY_METRICS.map((m) => (
+                <option key={m.id} value={m.id} title={m.description}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+            {SCORE_COMPONENTS.map((component) => (
+              <label key={component.id} className="flex items-center justify-between gap-2" title={component.description}>
+                <span className="text-sm text-gray-900">{component.label}</span>
+                <input
+                  type="number"
+                  step="0.05"
+                  value={profile.weights[component.id]}
+                  onChange={(e) => setWeight(component.id, e.target.value)}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-700">
+            Each component is scored 0-100 and multiplied by its weight; the behavior score is the sum, clamped to
+            0-100. Weights sum to {totalWeight.toFixed(2)}. Re-run the analysis to apply changes.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
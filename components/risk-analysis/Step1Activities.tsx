@@ -1,8 +1,43 @@
 'use client';
 
 import { useState } from 'react';
-import { Activity } from '@/lib/risk-analysis/types';
+import { Activity, ActivityPredecessor, DependencyType, ThreePointEstimate } from '@/lib/risk-analysis/types';
 import { calculateDurationDays } from '@/lib/risk-analysis/calculations';
+import { findScheduleCycle } from '@/lib/risk-analysis/schedule';
+import { validateThreePointEstimate } from '@/lib/risk-analysis/validation';
+
+const DEPENDENCY_TYPES: { value: DependencyType; label: string }[] = [
+  { value: 'FS', label: 'Finish-to-Start' },
+  { value: 'SS', label: 'Start-to-Start' },
+  { value: 'FF', label: 'Finish-to-Finish' },
+  { value: 'SF', label: 'Start-to-Finish' },
+];
+
+type EstimateField = 'durationEstimate' | 'costEstimate';
+
+/**
+ * Starting range around the planned value when an estimate is switched on
+ */
+function initialEstimate(planned: number): ThreePointEstimate {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    optimistic: round(planned * 0.9),
+    mostLikely: planned,
+    pessimistic: round(planned * 1.25),
+    distribution: 'pert',
+  };
+}
+
+/**
+ * Drop logic links that point at removed activities
+ */
+function withoutPredecessorLinks(activities: Activity[], removedIds: string[]): Activity[] {
+  return activities.map((a) =>
+    a.predecessors?.some((p) => removedIds.includes(p.activityId))
+      ? { ...a, predecessors: a.predecessors.filter((p) => !removedIds.includes(p.activityId)) }
+      : a
+  );
+}
 
 interface Step1ActivitiesProps {
   activities: Activity[];
@@ -34,10 +69,11 @@ export default function Step1Activities({
 
   const removeArtifact = (artifactId: string) => {
     // Remove artifact and all its level 2 activities
-    const newActivities = activities.filter(
-      (a) => a.id !== artifactId && !a.id.startsWith(`${artifactId}-`)
-    );
-    onActivitiesChange(newActivities);
+    const removedIds = activities
+      .filter((a) => a.id === artifactId || a.id.startsWith(`${artifactId}-`))
+      .map((a) => a.id);
+    const newActivities = activities.filter((a) => !removedIds.includes(a.id));
+    onActivitiesChange(withoutPredecessorLinks(newActivities, removedIds));
     if (selectedArtifactId === artifactId) {
       setSelectedArtifactId(null);
     }
@@ -65,7 +101,9 @@ export default function Step1Activities({
   };
 
   const removeActivity = (activityId: string) => {
-    onActivitiesChange(activities.filter((a) => a.id !== activityId));
+    onActivitiesChange(
+      withoutPredecessorLinks(activities.filter((a) => a.id !== activityId), [activityId])
+    );
   };
 
   const updateActivity = (activityId: string, field: keyof Activity, value: any) => {
@@ -101,12 +139,112 @@ export default function Step1Activities({
     onActivitiesChange(newActivities);
   };
 
+  const addPredecessor = (activityId: string) => {
+    const activity = activities.find((a) => a.id === activityId);
+    const candidate = level2Activities.find(
+      (a) => a.id !== activityId && !activity?.predecessors?.some((p) => p.activityId === a.id)
+    );
+    if (!activity || !candidate) return;
+    const newPredecessor: ActivityPredecessor = {
+      activityId: candidate.id,
+      type: 'FS',
+      lagDays: 0,
+    };
+    updateActivity(activityId, 'predecessors', [...(activity.predecessors ?? []), newPredecessor]);
+  };
+
+  const updatePredecessor = (
+    activityId: string,
+    index: number,
+    changes: Partial<ActivityPredecessor>
+  ) => {
+    const activity = activities.find((a) => a.id === activityId);
+    if (!activity) return;
+    const predecessors = (activity.predecessors ?? []).map((p, i) =>
+      i === index ? { ...p, ...changes } : p
+    );
+    updateActivity(activityId, 'predecessors', predecessors);
+  };
+
+  const removePredecessor = (activityId: string, index: number) => {
+    const activity = activities.find((a) => a.id === activityId);
+    if (!activity) return;
+    updateActivity(
+      activityId,
+      'predecessors',
+      (activity.predecessors ?? []).filter((_, i) => i !== index)
+    );
+  };
+
+  const toggleEstimate = (activity: Activity, field: EstimateField, planned: number) => {
+    updateActivity(activity.id, field, activity[field] ? undefined : initialEstimate(planned));
+  };
+
+  const updateEstimate = (activity: Activity, field: EstimateField, changes: Partial<ThreePointEstimate>) => {
+    const estimate = activity[field];
+    if (!estimate) return;
+    updateActivity(activity.id, field, { ...estimate, ...changes });
+  };
+
+  const renderEstimate = (activity: Activity, field: EstimateField, label: string, planned: number) => {
+    const estimate = activity[field];
+    const estimateErrors = estimate ? validateThreePointEstimate(estimate, field) : [];
+    return (
+      <div>
+        <label className="flex items-center gap-2 text-xs font-medium text-gray-900">
+          <input
+            type="checkbox"
+            checked={!!estimate}
+            onChange={() => toggleEstimate(activity, field, planned)}
+            className="rounded"
+          />
+          {label} range (optimistic / most likely / pessimistic)
+        </label>
+        {estimate && (
+          <div className="mt-1 grid grid-cols-12 gap-2">
+            {(['optimistic', 'mostLikely', 'pessimistic'] as const).map((key) => (
+              <input
+                key={key}
+                type="number"
+                value={estimate[key]}
+                onChange={(e) => updateEstimate(activity, field, { [key]: parseFloat(e.target.value) || 0 })}
+                min="0"
+                title={key === 'mostLikely' ? 'Most likely' : key.charAt(0).toUpperCase() + key.slice(1)}
+                className="col-span-3 px-1 py-1 border border-gray-300 rounded text-xs text-black"
+              />
+            ))}
+            <select
+              value={estimate.distribution ?? 'pert'}
+              onChange={(e) =>
+                updateEstimate(activity, field, {
+                  distribution: e.target.value as ThreePointEstimate['distribution'],
+                })
+              }
+              className="col-span-3 px-1 py-1 border border-gray-300 rounded text-xs text-black"
+            >
+              <option value="pert">PERT</option>
+              <option value="triangular">Triangular</option>
+            </select>
+          </div>
+        )}
+        {estimateErrors.map((error, idx) => (
+          <p key={idx} className="text-xs text-red-600 mt-1">
+            {error.message}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
   const selectedArtifact = artifacts.find((a) => a.id === selectedArtifactId);
   const selectedArtifactActivities = selectedArtifactId
     ? level2Activities.filter((a) => a.id.startsWith(`${selectedArtifactId}-`))
     : [];
 
+  const scheduleCycle = findScheduleCycle(activities);
+
   const canProceed =
+    !scheduleCycle &&
     artifacts.length > 0 &&
     artifacts.every((a) => a.title && a.title.trim().length > 0) &&
     level2Activities.length > 0 &&
@@ -116,6 +254,8 @@ export default function Step1Activities({
       const endDate = new Date(a.end);
       if (endDate < startDate) return false;
       if (a.cost < 0) return false;
+      if (a.durationEstimate && validateThreePointEstimate(a.durationEstimate, 'durationEstimate').length > 0) return false;
+      if (a.costEstimate && validateThreePointEstimate(a.costEstimate, 'costEstimate').length > 0) return false;
       return true;
     });
 
@@ -290,6 +430,81 @@ export default function Step1Activities({
                               </div>
                             </div>
                           </div>
+                          <div className="space-y-2">
+                            {renderEstimate(activity, 'durationEstimate', 'Duration (days)', duration)}
+                            {renderEstimate(activity, 'costEstimate', 'Cost', activity.cost)}
+                          </div>
+                          <div>
+                            <div className="flex justify-between items-center mb-1">
+                              <label className="block text-xs font-medium text-gray-900">
+                                Predecessors
+                              </label>
+                              <button
+                                onClick={() => addPredecessor(activity.id)}
+                                disabled={level2Activities.length < 2}
+                                className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                              >
+                                + Add Predecessor
+                              </button>
+                            </div>
+                            {(activity.predecessors ?? []).length === 0 ? (
+                              <p className="text-xs text-gray-700">None (starts on its start date)</p>
+                            ) : (
+                              <div className="space-y-2">
+                                {(activity.predecessors ?? []).map((predecessor, idx) => (
+                                  <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                                    <select
+                                      value={predecessor.activityId}
+                                      onChange={(e) =>
+                                        updatePredecessor(activity.id, idx, { activityId: e.target.value })
+                                      }
+                                      className="col-span-4 px-1 py-1 border border-gray-300 rounded text-xs text-black"
+                                    >
+                                      {level2Activities
+                                        .filter((a) => a.id !== activity.id)
+                                        .map((a) => (
+                                          <option key={a.id} value={a.id}>
+                                            {a.id}
+                                          </option>
+                                        ))}
+                                    </select>
+                                    <select
+                                      value={predecessor.type}
+                                      onChange={(e) =>
+                                        updatePredecessor(activity.id, idx, {
+                                          type: e.target.value as DependencyType,
+                                        })
+                                      }
+                                      className="col-span-4 px-1 py-1 border border-gray-300 rounded text-xs text-black"
+                                    >
+                                      {DEPENDENCY_TYPES.map((t) => (
+                                        <option key={t.value} value={t.value}>
+                                          {t.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                    <input
+                                      type="number"
+                                      value={predecessor.lagDays ?? 0}
+                                      onChange={(e) =>
+                                        updatePredecessor(activity.id, idx, {
+                                          lagDays: parseFloat(e.target.value) || 0,
+                                        })
+                                      }
+                                      title="Lag in days (negative for lead)"
+                                      className="col-span-2 px-1 py-1 border border-gray-300 rounded text-xs text-black"
+                                    />
+                                    <button
+                                      onClick={() => removePredecessor(activity.id, idx)}
+                                      className="col-span-2 text-xs text-red-600 hover:text-red-800"
+                                    >
+                                      Remove
+                                    </button>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
                           <button
                             onClick={() => removeActivity(activity.id)}
                             className="w-full px-3 py-1 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded hover:bg-red-50"
@@ -311,7 +526,15 @@ export default function Step1Activities({
         </div>
       </div>
 
-      {!canProceed && activities.length > 0 && (
+      {scheduleCycle && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-900">
+            Predecessor logic contains a cycle involving: {scheduleCycle.join(', ')}. Remove one of the links to continue.
+          </p>
+        </div>
+      )}
+
+      {!canProceed && !scheduleCycle && activities.length > 0 && (
         <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
           <p className="text-sm text-yellow-900">
             Please complete all required fields: artifacts must have titles, and all level 2 activities must have valid dates and costs.
@@ -1,13 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-import { Risk, RiskRelation } from '@/lib/risk-analysis/types';
+import { MitigationOption, QualitativeScales, Risk, RiskRelation, RiskType } from '@/lib/risk-analysis/types';
+import { validateImpactDistribution, validateMitigation } from '@/lib/risk-analysis/validation';
+import { classifyValue, matrixImpactPercent } from '@/lib/risk-analysis/qualitative';
+import ImpactDistributionEditor from '@/components/risk-analysis/ImpactDistributionEditor';
+import RiskNetworkGraph from '@/components/risk-analysis/RiskNetworkGraph';
 
 interface Step2RisksProps {
   risks: Risk[];
   onRisksChange: (risks: Risk[]) => void;
+  scales: QualitativeScales; // Bands offered for qualitative entry
 }
 
+const EMPTY_MITIGATION: Omit<MitigationOption, 'id'> = {
+  description: '',
+  cost: 0,
+  residualProbability: 0,
+  residualTimeImpactPercent: 0,
+  residualCostImpactPercent: 0,
+  owner: '',
+};
+
 const RISK_CATEGORIES = [
   'Technical',
   'Schedule',
@@ -19,7 +33,7 @@ const RISK_CATEGORIES = [
   'Stakeholder',
 ];
 
-export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
+export default function Step2Risks({ risks, onRisksChange, scales }: Step2RisksProps) {
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [formData, setFormData] = useState<Partial<Risk>>({
     title: '',
@@ -44,6 +58,8 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
     strength: 0.3,
   });
 
+  const [newMitigation, setNewMitigation] = useState<Omit<MitigationOption, 'id'>>(EMPTY_MITIGATION);
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -56,8 +72,10 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
       responsePlan: '',
       relatedRisks: [],
       affectedActivities: [],
+      mitigations: [],
     });
     setEditingIndex(null);
+    setNewMitigation(EMPTY_MITIGATION);
     setNewRelatedRisk({
       riskId: '',
       relationType: 'dependency',
@@ -66,7 +84,7 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
   };
 
   const handleSave = () => {
-    if (!formData.title) return;
+    if (!formData.title || !distributionsValid) return;
 
     const newRisk: Risk = {
       id: editingIndex !== null ? risks[editingIndex].id : `R-${risks.length + 1}`,
@@ -80,6 +98,10 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
       responsePlan: formData.responsePlan ?? '',
       relatedRisks: formData.relatedRisks ?? [],
       affectedActivities: formData.affectedActivities ?? [],
+      timeImpactDistribution: formData.timeImpactDistribution,
+      costImpactDistribution: formData.costImpactDistribution,
+      mitigations: formData.mitigations ?? [],
+      type: formData.type ?? 'threat',
     };
 
     if (editingIndex !== null) {
@@ -138,8 +160,111 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
     setFormData({ ...formData, relatedRisks: newRelatedRisks });
   };
 
+  const addMitigation = () => {
+    const mitigations = formData.mitigations ?? [];
+    const nextNumber =
+      mitigations.reduce((max, m) => Math.max(max, parseInt(m.id.replace('M-', '')) || 0), 0) + 1;
+    const mitigation: MitigationOption = { id: `M-${nextNumber}`, ...newMitigation };
+
+    const errors = validateMitigation(mitigation, riskType);
+    if (errors.length > 0) {
+      alert(errors.map((e) => e.message).join('\n'));
+      return;
+    }
+
+    setFormData({ ...formData, mitigations: [...mitigations, mitigation] });
+    setNewMitigation(EMPTY_MITIGATION);
+  };
+
+  const removeMitigation = (index: number) => {
+    setFormData({
+      ...formData,
+      mitigations: (formData.mitigations ?? []).filter((_, i) => i !== index),
+    });
+  };
+
+  const riskType: RiskType = formData.type ?? 'threat';
+  const isOpportunity = riskType === 'opportunity';
+
+  // Switching type flips the sign of every impact; custom distributions are reset
+  const changeRiskType = (type: RiskType) => {
+    if (type === riskType) return;
+    setFormData({
+      ...formData,
+      type,
+      timeImpactPercent: -(formData.timeImpactPercent ?? 0),
+      costImpactPercent: -(formData.costImpactPercent ?? 0),
+      timeImpactDistribution: undefined,
+      costImpactDistribution: undefined,
+      mitigations: (formData.mitigations ?? []).map((m) => ({
+        ...m,
+        residualTimeImpactPercent: -m.residualTimeImpactPercent,
+        residualCostImpactPercent: -m.residualCostImpactPercent,
+      })),
+    });
+    setNewMitigation({
+      ...newMitigation,
+      residualTimeImpactPercent: -newMitigation.residualTimeImpactPercent,
+      residualCostImpactPercent: -newMitigation.residualCostImpactPercent,
+    });
+  };
+
+  const mitigationNumberInput = (
+    field: 'cost' | 'residualProbability' | 'residualTimeImpactPercent' | 'residualCostImpactPercent',
+    label: string
+  ) => {
+    const isImpact = field === 'residualTimeImpactPercent' || field === 'residualCostImpactPercent';
+    return (
+      <div className="col-span-2">
+        <label className="block text-xs font-medium text-gray-900 mb-1">{label}</label>
+        <input
+          type="number"
+          min={isImpact && isOpportunity ? '-100' : '0'}
+          max={field === 'residualProbability' ? '100' : isImpact && isOpportunity ? '0' : undefined}
+          value={newMitigation[field]}
+          onChange={(e) => setNewMitigation({ ...newMitigation, [field]: parseFloat(e.target.value) || 0 })}
+          className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+        />
+      </div>
+    );
+  };
+
+  // Qualitative entry: picking a band sets the band's value (negated for opportunity impacts)
+  const bandSelect = (field: 'probability' | 'timeImpactPercent' | 'costImpactPercent') => {
+    const bands = field === 'probability' ? scales.probability : scales.impact;
+    const sign = field !== 'probability' && isOpportunity ? -1 : 1;
+    const current = classifyValue(Math.abs(formData[field] ?? 0), bands);
+    return (
+      <select
+        value={current}
+        onChange={(e) => setFormData({ ...formData, [field]: sign * bands[parseInt(e.target.value)].value })}
+        title="Enter qualitatively"
+        className="w-28 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+      >
+        {bands.map((band, i) => (
+          <option key={i} value={i}>
+            {band.label}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  const ratingLabel = (risk: Risk) =>
+    `${scales.probability[classifyValue(risk.probability, scales.probability)].label} × ${
+      scales.impact[classifyValue(matrixImpactPercent(risk), scales.impact)].label
+    }`;
+
   const canProceed = risks.length > 0;
 
+  const distributionsValid =
+    (!formData.timeImpactDistribution ||
+      validateImpactDistribution(formData.timeImpactDistribution, 'timeImpactDistribution', riskType)
+        .length === 0) &&
+    (!formData.costImpactDistribution ||
+      validateImpactDistribution(formData.costImpactDistribution, 'costImpactDistribution', riskType)
+        .length === 0);
+
   // Available risk IDs for related risks dropdown (exclude current risk if editing)
   const availableRiskIds = risks
     .filter((r) => editingIndex === null || r.id !== risks[editingIndex].id)
@@ -193,6 +318,34 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
             </select>
           </div>
 
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-900 mb-1">
+              Type
+            </label>
+            <div className="flex items-center gap-2">
+              {(['threat', 'opportunity'] as const).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => changeRiskType(type)}
+                  className={`px-3 py-1 rounded text-sm font-medium ${
+                    riskType === type
+                      ? type === 'opportunity'
+                        ? 'bg-green-600 text-white'
+                        : 'bg-red-600 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {type === 'threat' ? 'Threat' : 'Opportunity'}
+                </button>
+              ))}
+              {isOpportunity && (
+                <span className="text-xs text-gray-700">
+                  Impacts are savings: enter them as negative percentages (down to -100%)
+                </span>
+              )}
+            </div>
+          </div>
+
           {/* Probability with slider */}
           <div>
             <label className="block text-sm font-medium text-gray-900 mb-1">
@@ -215,6 +368,7 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
                 onChange={(e) => setFormData({ ...formData, probability: parseFloat(e.target.value) || 0 })}
                 className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
               />
+              {bandSelect('probability')}
             </div>
           </div>
 
@@ -226,19 +380,21 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
             <div className="flex items-center gap-3">
               <input
                 type="range"
-                min="0"
-                max="200"
+                min={isOpportunity ? '-100' : '0'}
+                max={isOpportunity ? '0' : '200'}
                 value={formData.timeImpactPercent}
                 onChange={(e) => setFormData({ ...formData, timeImpactPercent: parseInt(e.target.value) })}
                 className="flex-1"
               />
               <input
                 type="number"
-                min="0"
+                min={isOpportunity ? '-100' : '0'}
+                max={isOpportunity ? '0' : undefined}
                 value={formData.timeImpactPercent}
                 onChange={(e) => setFormData({ ...formData, timeImpactPercent: parseFloat(e.target.value) || 0 })}
                 className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
               />
+              {bandSelect('timeImpactPercent')}
             </div>
           </div>
 
@@ -250,19 +406,21 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
             <div className="flex items-center gap-3">
               <input
                 type="range"
-                min="0"
-                max="200"
+                min={isOpportunity ? '-100' : '0'}
+                max={isOpportunity ? '0' : '200'}
                 value={formData.costImpactPercent}
                 onChange={(e) => setFormData({ ...formData, costImpactPercent: parseInt(e.target.value) })}
                 className="flex-1"
               />
               <input
                 type="number"
-                min="0"
+                min={isOpportunity ? '-100' : '0'}
+                max={isOpportunity ? '0' : undefined}
                 value={formData.costImpactPercent}
                 onChange={(e) => setFormData({ ...formData, costImpactPercent: parseFloat(e.target.value) || 0 })}
                 className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
               />
+              {bandSelect('costImpactPercent')}
             </div>
           </div>
 
@@ -291,6 +449,29 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
             </div>
           </div>
 
+          {/* Impact uncertainty for Monte Carlo */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Impact Uncertainty (Monte Carlo)
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <ImpactDistributionEditor
+                label="Time Impact"
+                impactPercent={formData.timeImpactPercent ?? 0}
+                riskType={riskType}
+                distribution={formData.timeImpactDistribution}
+                onChange={(distribution) => setFormData({ ...formData, timeImpactDistribution: distribution })}
+              />
+              <ImpactDistributionEditor
+                label="Cost Impact"
+                impactPercent={formData.costImpactPercent ?? 0}
+                riskType={riskType}
+                distribution={formData.costImpactDistribution}
+                onChange={(distribution) => setFormData({ ...formData, costImpactDistribution: distribution })}
+              />
+            </div>
+          </div>
+
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-900 mb-1">
               Trigger
@@ -427,14 +608,106 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
               </div>
             )}
           </div>
+
+          {/* Mitigation Options */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Mitigation Options
+            </label>
+
+            <div className="mb-3 p-3 bg-white rounded border border-gray-300 space-y-2">
+              <div className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-8">
+                  <label className="block text-xs font-medium text-gray-900 mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={newMitigation.description}
+                    onChange={(e) => setNewMitigation({ ...newMitigation, description: e.target.value })}
+                    placeholder="e.g. Add a second supplier"
+                    className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                </div>
+                <div className="col-span-4">
+                  <label className="block text-xs font-medium text-gray-900 mb-1">Owner</label>
+                  <input
+                    type="text"
+                    value={newMitigation.owner}
+                    onChange={(e) => setNewMitigation({ ...newMitigation, owner: e.target.value })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-10 gap-2 items-end">
+                {mitigationNumberInput('cost', 'Cost')}
+                {mitigationNumberInput('residualProbability', 'Residual Prob. %')}
+                {mitigationNumberInput('residualTimeImpactPercent', 'Residual Time %')}
+                {mitigationNumberInput('residualCostImpactPercent', 'Residual Cost %')}
+                <div className="col-span-2">
+                  <button
+                    onClick={addMitigation}
+                    disabled={!newMitigation.description.trim()}
+                    className={`w-full px-3 py-1 rounded text-sm font-medium ${
+                      !newMitigation.description.trim()
+                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                    }`}
+                  >
+                    + Add
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {(formData.mitigations ?? []).length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-300">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">ID</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Description</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Owner</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Cost</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Residual P / Time / Cost</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {(formData.mitigations ?? []).map((m, idx) => (
+                      <tr key={m.id} className="hover:bg-gray-50">
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{m.id}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{m.description}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{m.owner || '—'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{m.cost}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                          {m.residualProbability}% / {m.residualTimeImpactPercent}% / {m.residualCostImpactPercent}%
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-sm">
+                          <button
+                            onClick={() => removeMitigation(idx)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="p-4 border border-gray-300 rounded bg-gray-50 text-center">
+                <p className="text-sm text-gray-700">No mitigation options added yet</p>
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="mt-4 flex gap-2">
           <button
             onClick={handleSave}
-            disabled={!formData.title}
+            disabled={!formData.title || !distributionsValid}
             className={`px-4 py-2 rounded-lg font-medium ${
-              !formData.title
+              !formData.title || !distributionsValid
                 ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 text-white hover:bg-blue-700'
             }`}
@@ -460,6 +733,8 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">ID</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Title</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Probability</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Rating (P × I)</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Type</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Category</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-900 uppercase">Actions</th>
             </tr>
@@ -470,6 +745,14 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{risk.id}</td>
                 <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{risk.title}</td>
                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{risk.probability}%</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{ratingLabel(risk)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm">
+                  {risk.type === 'opportunity' ? (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">Opportunity</span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">Threat</span>
+                  )}
+                </td>
                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{risk.category}</td>
                 <td className="px-4 py-3 whitespace-nowrap text-sm">
                   <button
@@ -491,6 +774,16 @@ export default function Step2Risks({ risks, onRisksChange }: Step2RisksProps) {
         </table>
       </div>
 
+      {risks.length > 1 && (
+        <div className="mt-8">
+          <h3 className="text-lg font-semibold mb-2 text-gray-900">Risk Network</h3>
+          {editingIndex !== null && (
+            <p className="mb-2 text-sm text-gray-700">Finish editing the risk above to change relations here.</p>
+          )}
+          <RiskNetworkGraph risks={risks} onRisksChange={editingIndex === null ? onRisksChange : undefined} />
+        </div>
+      )}
+
       {!canProceed && (
         <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
           <p className="text-sm text-yellow-900">
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import {
   BarChart,
   Bar,
+  Cell,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -13,18 +14,53 @@ import {
   LineChart,
   Line,
 } from 'recharts';
-import { AnalysisOutput, RiskAnalysisOutput } from '@/lib/risk-analysis/types';
+import {
+  AnalysisOutput,
+  Input,
+  PortfolioSelection,
+  QualitativeScales,
+  RiskAnalysisOutput,
+  ScenarioDefinition,
+  ScoringProfile,
+} from '@/lib/risk-analysis/types';
+import DistributionChart from '@/components/risk-analysis/DistributionChart';
+import TornadoChart from '@/components/risk-analysis/TornadoChart';
+import PortfolioOptimizer from '@/components/risk-analysis/PortfolioOptimizer';
+import RiskMatrix from '@/components/risk-analysis/RiskMatrix';
+import PropagationTrace from '@/components/risk-analysis/PropagationTrace';
+import RiskNetworkGraph from '@/components/risk-analysis/RiskNetworkGraph';
+import ScenarioExplorer from '@/components/risk-analysis/ScenarioExplorer';
+import WhatIfSandbox from '@/components/risk-analysis/WhatIfSandbox';
+import { SCORE_COMPONENTS } from '@/lib/risk-analysis/scoring';
+import { placeRisksOnMatrix } from '@/lib/risk-analysis/qualitative';
 
 interface Step4ResultsProps {
   analysisOutput: AnalysisOutput;
+  input: Input; // Activities and risks the results were computed from
+  scales: QualitativeScales; // Bands for the probability-impact matrix
+  scoringProfile: ScoringProfile; // Used by what-if re-runs
+  simulating: boolean; // Monte Carlo is still running; partial results without it were cancelled
+  scenarios: ScenarioDefinition[]; // Saved combined scenarios
+  onScenariosChange: (scenarios: ScenarioDefinition[]) => void;
   onExport: () => void;
+  onApplyMitigations: (selections: PortfolioSelection[]) => void;
 }
 
 export default function Step4Results({
   analysisOutput,
+  input,
+  scales,
+  scoringProfile,
+  simulating,
+  scenarios,
+  onScenariosChange,
   onExport,
+  onApplyMitigations,
 }: Step4ResultsProps) {
-  const [selectedView, setSelectedView] = useState<'overview' | 'detailed' | 'combined' | 'monteCarlo'>('overview');
+  const [selectedView, setSelectedView] = useState<
+    'overview' | 'detailed' | 'matrix' | 'network' | 'combined' | 'mitigation' | 'monteCarlo' | 'whatIf'
+  >('overview');
+  const recommendations = analysisOutput.recommendations ?? [];
 
   // Prepare chart data
   const behaviorScoreData = analysisOutput.topRisksByBehaviorScore
@@ -32,7 +68,15 @@ export default function Step4Results({
     .map((r) => ({
       risk: r.riskId,
       score: Math.round(r.behaviorScore * 10) / 10,
+      type: r.type,
     }));
+  const matrixPlacements = placeRisksOnMatrix(input.risks, analysisOutput.propagationResults, scales);
+  const movedByPropagation = matrixPlacements.filter(
+    (p) => p.propagatedProbabilityBand !== p.probabilityBand
+  );
+  const propagationById = new Map(analysisOutput.propagationResults.map((p) => [p.riskId, p]));
+  const threatTotals = analysisOutput.threatTotals;
+  const opportunityTotals = analysisOutput.opportunityTotals;
 
   const expectedImpactData = analysisOutput.topRisksByExpectedImpact
     .slice(0, 10)
@@ -92,14 +136,43 @@ export default function Step4Results({
         </div>
       </div>
 
+      {/* Threat / Opportunity split, only when the register has opportunities */}
+      {threatTotals && opportunityTotals && opportunityTotals.count > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-red-50 p-4 rounded-lg border border-red-200">
+            <p className="text-sm text-red-900">Threats ({threatTotals.count})</p>
+            <p className="text-lg font-bold text-red-900">
+              +{threatTotals.expectedTimeImpact.toFixed(1)} days / +{threatTotals.expectedCostImpact.toFixed(0)}
+            </p>
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+            <p className="text-sm text-green-900">Opportunities ({opportunityTotals.count})</p>
+            <p className="text-lg font-bold text-green-900">
+              {opportunityTotals.expectedTimeImpact.toFixed(1)} days / {opportunityTotals.expectedCostImpact.toFixed(0)}
+            </p>
+          </div>
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-900">Net Exposure</p>
+            <p className="text-lg font-bold text-gray-900">
+              {(threatTotals.expectedTimeImpact + opportunityTotals.expectedTimeImpact).toFixed(1)} days /{' '}
+              {(threatTotals.expectedCostImpact + opportunityTotals.expectedCostImpact).toFixed(0)}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* View Tabs */}
       <div className="mb-6 border-b border-gray-200">
         <nav className="flex space-x-4">
           {[
             { id: 'overview', label: 'Overview' },
             { id: 'detailed', label: 'Per-Risk Details' },
+            { id: 'matrix', label: 'Risk Matrix' },
+            { id: 'network', label: 'Risk Network' },
             { id: 'combined', label: 'Combined Scenarios' },
+            { id: 'mitigation', label: 'Mitigations' },
             { id: 'monteCarlo', label: 'Monte Carlo' },
+            { id: 'whatIf', label: 'What-If' },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -119,6 +192,53 @@ export default function Step4Results({
       {/* Overview View */}
       {selectedView === 'overview' && (
         <div className="space-y-6">
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <h3 className="text-lg font-semibold mb-4 text-gray-900">Schedule (Critical Path)</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-900">Project Start</p>
+                <p className="text-lg font-bold text-gray-900">{analysisOutput.schedule.projectStart || 'N/A'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-900">Project Finish</p>
+                <p className="text-lg font-bold text-gray-900">{analysisOutput.schedule.projectFinish || 'N/A'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-900">Critical Path Length</p>
+                <p className="text-lg font-bold text-gray-900">{analysisOutput.schedule.projectDuration.toFixed(0)} days</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-900">Critical Activities</p>
+                <p className="text-lg font-bold text-gray-900">{analysisOutput.schedule.criticalPath.length}</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Activity</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Early Start</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Early Finish</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Total Float</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {analysisOutput.schedule.activities.map((a) => (
+                    <tr key={a.activityId} className={a.critical ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {a.activityId}
+                        {a.critical && <span className="ml-2 text-xs text-red-700 font-medium">critical</span>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">day {a.earlyStart.toFixed(0)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">day {a.earlyFinish.toFixed(0)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{a.totalFloat.toFixed(0)} days</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
           <div className="bg-white p-6 rounded-lg border border-gray-200">
             <h3 className="text-lg font-semibold mb-4 text-gray-900">Top Risks by Behavior Score</h3>
             <ResponsiveContainer width="100%" height={300}>
@@ -138,7 +258,11 @@ export default function Step4Results({
                   labelStyle={{ color: '#111827', fontWeight: 'bold' }}
                 />
                 <Legend wrapperStyle={{ color: '#111827' }} />
-                <Bar dataKey="score" fill="#3b82f6" name="Behavior Score" />
+                <Bar dataKey="score" fill="#3b82f6" name="Behavior Score">
+                  {behaviorScoreData.map((entry) => (
+                    <Cell key={entry.risk} fill={entry.type === 'opportunity' ? '#10b981' : '#3b82f6'} />
+                  ))}
+                </Bar>
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -199,13 +323,29 @@ export default function Step4Results({
       {/* Detailed View */}
       {selectedView === 'detailed' && (
         <div className="space-y-4">
+          {analysisOutput.propagationSummary && analysisOutput.propagationSummary.cycles.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900">
+              Dependency cycles:{' '}
+              {analysisOutput.propagationSummary.cycles.map((cycle) => cycle.join(' ↔ ')).join('; ')}.{' '}
+              {analysisOutput.propagationSummary.converged
+                ? `Probabilities converged after ${analysisOutput.propagationSummary.iterations} passes.`
+                : `Probabilities had not converged after ${analysisOutput.propagationSummary.iterations} passes.`}
+            </div>
+          )}
           {analysisOutput.perRiskAnalysis.map((risk) => (
             <div
               key={risk.riskId}
-              className="bg-white p-6 rounded-lg border border-gray-200"
+              className={`p-6 rounded-lg border ${
+                risk.type === 'opportunity' ? 'bg-green-50 border-green-300' : 'bg-white border-gray-200'
+              }`}
             >
               <h3 className="text-lg font-semibold mb-4 text-gray-900">
                 {risk.riskId}: {risk.title}
+                {risk.type === 'opportunity' && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 align-middle">
+                    Opportunity
+                  </span>
+                )}
               </h3>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div>
@@ -234,42 +374,236 @@ export default function Step4Results({
                   <div>Scope Impact: {risk.sensitivity.scopeImpactSensitivity.toFixed(3)}</div>
                 </div>
               </div>
+              {risk.scoreBreakdown && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-gray-900 mb-2">Behavior Score Breakdown:</p>
+                  <div className="space-y-1">
+                    {SCORE_COMPONENTS.filter((c) => risk.scoreBreakdown![c.id] !== 0).map((c) => {
+                      const value = risk.scoreBreakdown![c.id];
+                      return (
+                        <div key={c.id} className="flex items-center gap-2 text-sm text-gray-900" title={c.description}>
+                          <span className="w-44">{c.label}</span>
+                          <div className="flex-1 h-2 bg-gray-100 rounded">
+                            <div
+                              className={`h-2 rounded ${value < 0 ? 'bg-red-400' : 'bg-blue-500'}`}
+                              style={{ width: `${Math.min(100, Math.abs(value))}%` }}
+                            />
+                          </div>
+                          <span className="w-16 text-right">
+                            {value > 0 ? '+' : ''}
+                            {value.toFixed(1)}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {propagationById.has(risk.riskId) && (
+                <PropagationTrace result={propagationById.get(risk.riskId)!} />
+              )}
+              {risk.recommendations.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-gray-900 mb-2">Recommendations:</p>
+                  <ul className="space-y-1 text-sm text-gray-900">
+                    {risk.recommendations.map((rec) => (
+                      <li key={rec.mitigationId ?? rec.action}>
+                        {rec.action}
+                        {rec.postMitigation && (
+                          <span className="text-gray-600">
+                            {' '}
+                            — expected cost {rec.postMitigation.expectedCostImpact.toFixed(2)}, time{' '}
+                            {rec.postMitigation.expectedTimeImpact.toFixed(2)} days
+                          </span>
+                        )}
+                        {rec.ROI !== undefined && (
+                          <span className="ml-2 font-medium">ROI {(rec.ROI * 100).toFixed(0)}%</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           ))}
         </div>
       )}
 
+      {/* Probability-Impact Matrix View */}
+      {selectedView === 'matrix' && (
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold mb-2 text-gray-900">Probability-Impact Matrix</h3>
+          <p className="text-sm text-gray-700 mb-4">
+            Impact is the larger of the time and cost impact. Opportunities are shown in green and placed by the
+            size of their saving.
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <RiskMatrix
+              title="Before Propagation"
+              placements={matrixPlacements}
+              scales={scales}
+              propagated={false}
+            />
+            <RiskMatrix
+              title="After Propagation"
+              placements={matrixPlacements}
+              scales={scales}
+              propagated
+              highlight={new Set(movedByPropagation.map((p) => p.riskId))}
+            />
+          </div>
+          {movedByPropagation.length > 0 ? (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-900 mb-2">Moved by relationships:</p>
+              <ul className="space-y-1 text-sm text-gray-900">
+                {movedByPropagation.map((p) => (
+                  <li key={p.riskId}>
+                    <span className="font-medium">{p.riskId}</span>: probability{' '}
+                    {scales.probability[p.probabilityBand].label} →{' '}
+                    {scales.probability[p.propagatedProbabilityBand].label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-gray-700">No risk changes probability band through relationships.</p>
+          )}
+        </div>
+      )}
+
+      {/* Relationship Network View */}
+      {selectedView === 'network' && (
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold mb-2 text-gray-900">Risk Network</h3>
+          <p className="text-sm text-gray-700 mb-4">
+            Nodes are sized by behavior score; edge width shows relation strength. Edit relations in the Risks
+            step.
+          </p>
+          <RiskNetworkGraph
+            risks={input.risks}
+            scores={Object.fromEntries(analysisOutput.perRiskAnalysis.map((r) => [r.riskId, r.behaviorScore]))}
+          />
+          {analysisOutput.perRiskAnalysis.some((r) => r.network) && (
+            <div className="mt-6 overflow-x-auto">
+              <h4 className="font-medium mb-2 text-gray-900">Network Metrics</h4>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Risk</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Degree</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Weighted In</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Weighted Out</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Betweenness</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">PageRank</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Cycle Size</th>
+                    <th
+                      className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase"
+                      title="The scoring profile's centrality metric on a 0-100 scale"
+                    >
+                      Centrality
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-gray-900">
+                  {[...analysisOutput.perRiskAnalysis]
+                    .filter((r) => r.network)
+                    .sort((a, b) => b.network!.centrality - a.network!.centrality)
+                    .map((r) => (
+                      <tr key={r.riskId}>
+                        <td className="px-3 py-2 font-medium">{r.riskId}</td>
+                        <td className="px-3 py-2 text-right">{r.network!.degree}</td>
+                        <td className="px-3 py-2 text-right">{r.network!.weightedInDegree.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right">{r.network!.weightedOutDegree.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right">{r.network!.betweenness.toFixed(3)}</td>
+                        <td className="px-3 py-2 text-right">{r.network!.pageRank.toFixed(3)}</td>
+                        <td className="px-3 py-2 text-right">
+                          {r.network!.componentSize > 1 ? r.network!.componentSize : '—'}
+                        </td>
+                        <td className="px-3 py-2 text-right">{r.network!.centrality.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Combined Scenarios View */}
       {selectedView === 'combined' && (
+        <ScenarioExplorer
+          input={input}
+          analysisOutput={analysisOutput}
+          scenarios={scenarios}
+          onScenariosChange={onScenariosChange}
+        />
+      )}
+
+      {/* Mitigation View */}
+      {selectedView === 'mitigation' && (
         <div className="space-y-4">
-          {analysisOutput.combinedScenarios.map((scenario, idx) => (
-            <div
-              key={idx}
-              className="bg-white p-6 rounded-lg border border-gray-200"
-            >
-              <h3 className="text-lg font-semibold mb-4 text-gray-900">
-                Combined Scenario: {scenario.riskIds.join(', ')}
-              </h3>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div>
-                  <p className="text-sm text-gray-900">Combined Time Impact %</p>
-                  <p className="text-xl font-bold text-gray-900">{scenario.combinedTimeImpactPercent.toFixed(1)}%</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-900">Combined Cost Impact %</p>
-                  <p className="text-xl font-bold text-gray-900">{scenario.combinedCostImpactPercent.toFixed(1)}%</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-900">Expected Time Impact</p>
-                  <p className="text-xl font-bold text-gray-900">{scenario.combinedExpectedTimeImpact.toFixed(2)} days</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-900">Expected Cost Impact</p>
-                  <p className="text-xl font-bold text-gray-900">{scenario.combinedExpectedCostImpact.toFixed(2)}</p>
-                </div>
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <h3 className="text-lg font-semibold mb-2 text-gray-900">Ranked Mitigation Recommendations</h3>
+            <p className="text-sm text-gray-700 mb-4">
+              Expected impacts before and after each option, using propagated probabilities. ROI = (expected
+              cost saved − mitigation cost) / mitigation cost; options with no cost are listed first.
+            </p>
+            {recommendations.length === 0 ? (
+              <p className="text-sm text-gray-700">
+                No mitigation options defined. Add options to risks in Step 2 to compare them here.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-900">#</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-900">Risk</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-900">Mitigation</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-900">Owner</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-900">Cost</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-900">Probability</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-900">Expected Time</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-900">Expected Cost</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-900">ROI</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {recommendations.map((rec, idx) => (
+                      <tr key={`${rec.riskId}-${rec.mitigationId}`}>
+                        <td className="px-3 py-2 text-gray-900">{idx + 1}</td>
+                        <td className="px-3 py-2 text-gray-900 font-medium">{rec.riskId}</td>
+                        <td className="px-3 py-2 text-gray-900">{rec.action}</td>
+                        <td className="px-3 py-2 text-gray-900">{rec.owner || '—'}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{(rec.mitigationCost ?? 0).toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">
+                          {rec.preMitigation?.probability.toFixed(1)}% → {rec.postMitigation?.probability.toFixed(1)}%
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">
+                          {rec.preMitigation?.expectedTimeImpact.toFixed(2)} →{' '}
+                          {rec.postMitigation?.expectedTimeImpact.toFixed(2)} days
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">
+                          {rec.preMitigation?.expectedCostImpact.toFixed(2)} →{' '}
+                          {rec.postMitigation?.expectedCostImpact.toFixed(2)}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right font-medium ${
+                            rec.ROI === undefined || rec.ROI >= 0 ? 'text-green-700' : 'text-red-700'
+                          }`}
+                        >
+                          {rec.ROI === undefined ? 'No cost' : `${(rec.ROI * 100).toFixed(0)}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-            </div>
-          ))}
+            )}
+          </div>
+          {recommendations.length > 0 && (
+            <PortfolioOptimizer input={input} analysisOutput={analysisOutput} onApply={onApplyMitigations} />
+          )}
         </div>
       )}
 
@@ -282,11 +616,26 @@ export default function Step4Results({
                 <h3 className="text-lg font-semibold mb-4 text-gray-900">Monte Carlo Simulation Results</h3>
                 <p className="text-sm text-gray-900 mb-4">
                   Iterations: {analysisOutput.monteCarlo.iterations}
+                  {analysisOutput.monteCarlo.convergence && !analysisOutput.monteCarlo.partial && (
+                    <span className="ml-1">
+                      {analysisOutput.monteCarlo.convergence.converged
+                        ? `(converged: P50/P90 standard error within ${analysisOutput.monteCarlo.convergence.tolerance}%)`
+                        : `(reached the ${analysisOutput.monteCarlo.convergence.maxIterations.toLocaleString()} iteration cap before converging to ${analysisOutput.monteCarlo.convergence.tolerance}%)`}
+                    </span>
+                  )}
+                  {analysisOutput.monteCarlo.seed !== undefined && (
+                    <span className="ml-4">Seed: {analysisOutput.monteCarlo.seed}</span>
+                  )}
+                  {analysisOutput.monteCarlo.partial && (
+                    <span className="ml-4 px-2 py-0.5 bg-yellow-100 text-yellow-900 rounded text-xs font-medium">
+                      {simulating ? 'Partial results' : 'Cancelled'}
+                    </span>
+                  )}
                 </p>
                 {analysisOutput.monteCarlo.totalCostDistribution && (
                   <div className="mb-4">
                     <h4 className="font-medium mb-2 text-gray-900">Total Cost Distribution</h4>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                       <div>
                         <p className="text-sm text-gray-900">Mean</p>
                         <p className="text-lg font-bold text-gray-900">
@@ -304,12 +653,33 @@ export default function Step4Results({
                         <p className="text-lg font-bold text-gray-900">
                           {analysisOutput.monteCarlo.totalCostDistribution.percentiles.p50.toFixed(2)}
                         </p>
+                        {analysisOutput.monteCarlo.totalCostDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalCostDistribution.standardErrors.p50.toFixed(2)} std. error
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-900">P80</p>
+                        <p className="text-lg font-bold text-gray-900">
+                          {analysisOutput.monteCarlo.totalCostDistribution.percentiles.p80.toFixed(2)}
+                        </p>
+                        {analysisOutput.monteCarlo.totalCostDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalCostDistribution.standardErrors.p80.toFixed(2)} std. error
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-gray-900">P90</p>
                         <p className="text-lg font-bold text-gray-900">
                           {analysisOutput.monteCarlo.totalCostDistribution.percentiles.p90.toFixed(2)}
                         </p>
+                        {analysisOutput.monteCarlo.totalCostDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalCostDistribution.standardErrors.p90.toFixed(2)} std. error
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -317,7 +687,7 @@ export default function Step4Results({
                 {analysisOutput.monteCarlo.totalDurationDistribution && (
                   <div className="mb-4">
                     <h4 className="font-medium mb-2 text-gray-900">Total Duration Distribution</h4>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                       <div>
                         <p className="text-sm text-gray-900">Mean</p>
                         <p className="text-lg font-bold text-gray-900">
@@ -335,33 +705,215 @@ export default function Step4Results({
                         <p className="text-lg font-bold text-gray-900">
                           {analysisOutput.monteCarlo.totalDurationDistribution.percentiles.p50.toFixed(2)} days
                         </p>
+                        {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors.p50.toFixed(2)} days std. error
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-900">P80</p>
+                        <p className="text-lg font-bold text-gray-900">
+                          {analysisOutput.monteCarlo.totalDurationDistribution.percentiles.p80.toFixed(2)} days
+                        </p>
+                        {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors.p80.toFixed(2)} days std. error
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-gray-900">P90</p>
                         <p className="text-lg font-bold text-gray-900">
                           {analysisOutput.monteCarlo.totalDurationDistribution.percentiles.p90.toFixed(2)} days
                         </p>
+                        {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors && (
+                          <p className="text-xs text-gray-600">
+                            ± {analysisOutput.monteCarlo.totalDurationDistribution.standardErrors.p90.toFixed(2)} days std. error
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
                 )}
-                {analysisOutput.monteCarlo.probabilityOverDeadline !== undefined && (
-                  <div className="mb-4">
-                    <p className="text-sm text-gray-900">Probability Over Deadline</p>
-                    <p className="text-2xl font-bold text-gray-900">
-                      {(analysisOutput.monteCarlo.probabilityOverDeadline * 100).toFixed(1)}%
-                    </p>
+                {(analysisOutput.monteCarlo.probabilityOverDeadline !== undefined ||
+                  analysisOutput.monteCarlo.probabilityOverBudget !== undefined) && (
+                  <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {analysisOutput.monteCarlo.probabilityOverDeadline !== undefined && (
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-900">Probability Over Deadline</p>
+                        <p className="text-2xl font-bold text-gray-900">
+                          {(analysisOutput.monteCarlo.probabilityOverDeadline * 100).toFixed(1)}%
+                        </p>
+                        <p className="text-xs text-gray-700">
+                          Target finish {analysisOutput.monteCarlo.deadlineDate} (
+                          {analysisOutput.monteCarlo.deadlineDays} days from project start)
+                        </p>
+                      </div>
+                    )}
+                    {analysisOutput.monteCarlo.probabilityOverBudget !== undefined && (
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-900">Probability Over Budget</p>
+                        <p className="text-2xl font-bold text-gray-900">
+                          {(analysisOutput.monteCarlo.probabilityOverBudget * 100).toFixed(1)}%
+                        </p>
+                        <p className="text-xs text-gray-700">
+                          Budget {analysisOutput.monteCarlo.budget?.toFixed(2)}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
-                {analysisOutput.monteCarlo.probabilityOverBudget !== undefined && (
-                  <div>
-                    <p className="text-sm text-gray-900">Probability Over Budget</p>
-                    <p className="text-2xl font-bold text-gray-900">
-                      {(analysisOutput.monteCarlo.probabilityOverBudget * 100).toFixed(1)}%
+              </div>
+
+              {analysisOutput.monteCarlo.correlationEffect &&
+                analysisOutput.monteCarlo.totalCostDistribution &&
+                analysisOutput.monteCarlo.totalDurationDistribution && (
+                <div className="bg-white p-6 rounded-lg border border-gray-200">
+                  <h3 className="text-lg font-semibold mb-1 text-gray-900">Effect of Risk Correlation</h3>
+                  <p className="text-sm text-gray-700 mb-4">
+                    {analysisOutput.monteCarlo.correlationEffect.dependencyLinks} dependency and{' '}
+                    {analysisOutput.monteCarlo.correlationEffect.concurrentLinks} concurrent link(s) were sampled jointly.
+                    Compared with independent sampling at the same occurrence rates:
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {[
+                      {
+                        label: 'Duration P90',
+                        correlated: analysisOutput.monteCarlo.totalDurationDistribution.percentiles.p90,
+                        independent: analysisOutput.monteCarlo.correlationEffect.independentDurationP90,
+                        increase: analysisOutput.monteCarlo.correlationEffect.durationP90Increase,
+                        unit: ' days',
+                      },
+                      {
+                        label: 'Cost P90',
+                        correlated: analysisOutput.monteCarlo.totalCostDistribution.percentiles.p90,
+                        independent: analysisOutput.monteCarlo.correlationEffect.independentCostP90,
+                        increase: analysisOutput.monteCarlo.correlationEffect.costP90Increase,
+                        unit: '',
+                      },
+                    ].map((row) => (
+                      <div key={row.label} className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-900">{row.label}</p>
+                        <p className="text-lg font-bold text-gray-900">
+                          {row.correlated.toFixed(2)}{row.unit}
+                          <span className={`ml-2 text-sm ${row.increase > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                            {row.increase >= 0 ? '+' : ''}
+                            {row.increase.toFixed(2)}{row.unit}
+                            {row.independent > 0 && ` (${((row.increase / row.independent) * 100).toFixed(1)}%)`}
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-700">
+                          Independent: {row.independent.toFixed(2)}{row.unit}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  {analysisOutput.monteCarlo.correlationEffect.matrixAdjusted && (
+                    <p className="mt-3 text-xs text-yellow-800">
+                      Concurrent strengths were inconsistent with each other and were scaled down to form a valid
+                      correlation matrix.
                     </p>
+                  )}
+                </div>
+              )}
+
+              {analysisOutput.monteCarlo.totalDurationDistribution && (
+                <DistributionChart
+                  title="Project Duration Distribution"
+                  unit=" days"
+                  distribution={analysisOutput.monteCarlo.totalDurationDistribution}
+                  target={
+                    analysisOutput.monteCarlo.deadlineDays !== undefined
+                      ? { label: 'Deadline', value: analysisOutput.monteCarlo.deadlineDays }
+                      : undefined
+                  }
+                />
+              )}
+              {analysisOutput.monteCarlo.totalCostDistribution && (
+                <DistributionChart
+                  title="Project Cost Distribution"
+                  decimals={0}
+                  distribution={analysisOutput.monteCarlo.totalCostDistribution}
+                  target={
+                    analysisOutput.monteCarlo.budget !== undefined
+                      ? { label: 'Budget', value: analysisOutput.monteCarlo.budget }
+                      : undefined
+                  }
+                />
+              )}
+
+              {analysisOutput.monteCarlo.riskSensitivity && analysisOutput.monteCarlo.riskSensitivity.length > 0 && (
+                <TornadoChart sensitivity={analysisOutput.monteCarlo.riskSensitivity} />
+              )}
+
+              {analysisOutput.monteCarlo.durationContingency &&
+                analysisOutput.monteCarlo.costContingency &&
+                analysisOutput.monteCarlo.totalDurationDistribution &&
+                analysisOutput.monteCarlo.totalCostDistribution && (
+                <div className="bg-white p-6 rounded-lg border border-gray-200">
+                  <h3 className="text-lg font-semibold mb-1 text-gray-900">Contingency by Confidence Level</h3>
+                  <p className="text-sm text-gray-700 mb-4">
+                    Reserve above the plan ({analysisOutput.monteCarlo.baselineDuration?.toFixed(1)} days,{' '}
+                    {analysisOutput.monteCarlo.baselineCost?.toFixed(2)} cost) needed to finish within budget and
+                    schedule with the given confidence.
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-900">Confidence</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-900">Duration</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-900">Schedule Contingency</th>
+                          {analysisOutput.monteCarlo.deadlineDays !== undefined && (
+                            <th className="px-4 py-2 text-right font-medium text-gray-900">vs. Deadline</th>
+                          )}
+                          <th className="px-4 py-2 text-right font-medium text-gray-900">Cost</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-900">Cost Contingency</th>
+                          {analysisOutput.monteCarlo.budget !== undefined && (
+                            <th className="px-4 py-2 text-right font-medium text-gray-900">vs. Budget</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {(['p50', 'p80', 'p90'] as const).map((level) => {
+                          const mc = analysisOutput.monteCarlo!;
+                          const duration = mc.totalDurationDistribution!.percentiles[level];
+                          const cost = mc.totalCostDistribution!.percentiles[level];
+                          // Positive gap: the target must move by this much to reach the confidence level
+                          const deadlineGap = mc.deadlineDays !== undefined ? duration - mc.deadlineDays : undefined;
+                          const budgetGap = mc.budget !== undefined ? cost - mc.budget : undefined;
+                          return (
+                            <tr key={level}>
+                              <td className="px-4 py-2 font-medium text-gray-900">{level.toUpperCase()}</td>
+                              <td className="px-4 py-2 text-right text-gray-900">{duration.toFixed(1)} days</td>
+                              <td className="px-4 py-2 text-right text-gray-900">
+                                +{mc.durationContingency![level].toFixed(1)} days
+                              </td>
+                              {deadlineGap !== undefined && (
+                                <td className={`px-4 py-2 text-right ${deadlineGap > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                                  {deadlineGap > 0
+                                    ? `${deadlineGap.toFixed(1)} days short`
+                                    : `${(-deadlineGap).toFixed(1)} days spare`}
+                                </td>
+                              )}
+                              <td className="px-4 py-2 text-right text-gray-900">{cost.toFixed(2)}</td>
+                              <td className="px-4 py-2 text-right text-gray-900">
+                                +{mc.costContingency![level].toFixed(2)}
+                              </td>
+                              {budgetGap !== undefined && (
+                                <td className={`px-4 py-2 text-right ${budgetGap > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                                  {budgetGap > 0 ? `${budgetGap.toFixed(2)} short` : `${(-budgetGap).toFixed(2)} spare`}
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
                   </div>
-                )}
-              </div>
+                </div>
+              )}
             </div>
           ) : (
             <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 text-center">
@@ -371,6 +923,16 @@ export default function Step4Results({
         </div>
       )}
 
+      {/* What-If View */}
+      {selectedView === 'whatIf' && (
+        <WhatIfSandbox
+          input={input}
+          analysisOutput={analysisOutput}
+          scoringProfile={scoringProfile}
+          baselineSimulating={simulating}
+        />
+      )}
+
       {/* Export Button */}
       <div className="mt-6">
         <button
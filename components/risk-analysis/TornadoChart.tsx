@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { MonteCarloRiskSensitivity } from '@/lib/risk-analysis/types';
+
+interface TornadoChartProps {
+  sensitivity: MonteCarloRiskSensitivity[];
+}
+
+export default function TornadoChart({ sensitivity }: TornadoChartProps) {
+  const [metric, setMetric] = useState<'duration' | 'cost'>('duration');
+
+  const rows = sensitivity
+    .map((s) => ({
+      ...s,
+      label: s.riskId,
+      correlation: Math.round((metric === 'duration' ? s.durationCorrelation : s.costCorrelation) * 1000) / 1000,
+      contribution: metric === 'duration' ? s.durationVarianceContribution : s.costVarianceContribution,
+    }))
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold text-gray-900">Risk Drivers (Tornado)</h3>
+        <div className="flex gap-2">
+          {(['duration', 'cost'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-3 py-1 rounded text-sm font-medium ${
+                metric === m ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {m === 'duration' ? 'Duration' : 'Cost'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-gray-700 mb-4">
+        Spearman rank correlation between each risk&apos;s sampled impact and total project {metric}.
+        Longer bars drive more of the spread and are the first candidates for mitigation.
+      </p>
+
+      <ResponsiveContainer width="100%" height={Math.max(160, rows.length * 32 + 40)}>
+        <BarChart data={rows} layout="vertical" margin={{ left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" domain={[-1, 1]} />
+          <YAxis type="category" dataKey="label" width={80} />
+          <Tooltip
+            formatter={(value) => [value, 'Rank correlation']}
+            labelFormatter={(label) => {
+              const row = rows.find((r) => r.label === label);
+              return row ? `${row.riskId}: ${row.title}` : String(label);
+            }}
+          />
+          <ReferenceLine x={0} stroke="#374151" />
+          <Bar dataKey="correlation">
+            {rows.map((row) => (
+              <Cell key={row.riskId} fill={row.correlation >= 0 ? '#ef4444' : '#10b981'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-900">Risk</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-900">Occurred</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-900">Rank Correlation</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-900">Contribution to Variance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.riskId}>
+                <td className="px-4 py-2 text-gray-900">
+                  <span className="font-medium">{row.riskId}</span> {row.title}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-900">{(row.occurrenceRate * 100).toFixed(1)}%</td>
+                <td className="px-4 py-2 text-right text-gray-900">{row.correlation.toFixed(3)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{row.contribution.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
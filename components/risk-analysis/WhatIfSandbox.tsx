@@ -0,0 +1,527 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityOverride,
+  AnalysisOutput,
+  DistributionSummary,
+  Input,
+  MonteCarloSimulationRequest,
+  MonteCarloWorkerMessage,
+  RiskOverride,
+  ScoringProfile,
+  WhatIfOverrides,
+  WhatIfResult,
+} from '@/lib/risk-analysis/types';
+import { applyWhatIfOverrides, runWhatIf, whatIfSimulationRequest } from '@/lib/risk-analysis/whatif';
+import { calculateDurationDays } from '@/lib/risk-analysis/calculations';
+import { validateActivity, validateRisk } from '@/lib/risk-analysis/validation';
+
+interface WhatIfSandboxProps {
+  input: Input;
+  analysisOutput: AnalysisOutput; // Baseline run
+  scoringProfile: ScoringProfile;
+  baselineSimulating: boolean; // The baseline's Monte Carlo run is still in progress
+}
+
+const PERCENTILES = ['p10', 'p50', 'p80', 'p90'] as const;
+
+// Empty input clears the override
+const parseOverride = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+function Change({ from, to, digits = 1, suffix = '' }: { from: number; to: number; digits?: number; suffix?: string }) {
+  const change = to - from;
+  if (Math.abs(change) < Math.pow(10, -digits) / 2) return <span className="text-gray-700">—</span>;
+  return (
+    <span className={change > 0 ? 'text-red-700' : 'text-green-700'}>
+      {change > 0 ? '+' : ''}
+      {change.toFixed(digits)}
+      {suffix}
+    </span>
+  );
+}
+
+function PercentileDiff({
+  title,
+  baseline,
+  whatIf,
+  unit,
+}: {
+  title: string;
+  baseline?: DistributionSummary;
+  whatIf?: DistributionSummary;
+  unit: string;
+}) {
+  if (!baseline || !whatIf) return null;
+  const digits = unit === 'days' ? 1 : 0;
+  return (
+    <div>
+      <h4 className="font-medium mb-2 text-gray-900">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-700">
+            <th className="pb-1" />
+            <th className="pb-1">Baseline</th>
+            <th className="pb-1">What-if</th>
+            <th className="pb-1">Change</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-900">
+          {PERCENTILES.map((p) => (
+            <tr key={p}>
+              <td className="font-medium">{p.toUpperCase()}</td>
+              <td>{baseline.percentiles[p].toFixed(digits)}</td>
+              <td>{whatIf.percentiles[p].toFixed(digits)}</td>
+              <td>
+                <Change from={baseline.percentiles[p]} to={whatIf.percentiles[p]} digits={digits} />
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="font-medium">Mean</td>
+            <td>{baseline.mean.toFixed(digits)}</td>
+            <td>{whatIf.mean.toFixed(digits)}</td>
+            <td>
+              <Change from={baseline.mean} to={whatIf.mean} digits={digits} />
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function WhatIfSandbox({
+  input,
+  analysisOutput,
+  scoringProfile,
+  baselineSimulating,
+}: WhatIfSandboxProps) {
+  const [overrides, setOverrides] = useState<WhatIfOverrides>({ risks: [], activities: [] });
+  const [result, setResult] = useState<WhatIfResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop a running simulation when the sandbox goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const level2Activities = input.activities.filter((a) => a.level === 2);
+  const baselineMonteCarlo = analysisOutput.monteCarlo;
+  // A cancelled baseline is compared at the iterations it completed
+  const baselineCancelled = !baselineSimulating && (baselineMonteCarlo?.partial ?? false);
+
+  const updateRisk = (riskId: string, changes: Partial<RiskOverride>) =>
+    setOverrides({
+      ...overrides,
+      risks: overrides.risks.map((o) => (o.riskId === riskId ? { ...o, ...changes } : o)),
+    });
+
+  const updateActivity = (activityId: string, changes: Partial<ActivityOverride>) =>
+    setOverrides({
+      ...overrides,
+      activities: overrides.activities.map((o) => (o.activityId === activityId ? { ...o, ...changes } : o)),
+    });
+
+  const stopSimulation = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Monte Carlo runs in the worker; only the finished run is compared, as the baseline is complete
+  const startSimulation = (request: MonteCarloSimulationRequest) => {
+    const worker = new Worker(new URL('../../lib/risk-analysis/monte-carlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    setProgress({ completed: 0, total: request.iterations });
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+      if (message.type === 'done') {
+        const monteCarlo = message.result;
+        setResult((prev) => (prev ? { ...prev, output: { ...prev.output, monteCarlo } } : prev));
+      } else if (message.type === 'error') {
+        alert(`What-if simulation failed: ${message.message}`);
+      }
+      stopSimulation();
+    };
+    worker.onerror = (event) => {
+      alert(`What-if simulation failed: ${event.message}`);
+      stopSimulation();
+    };
+    worker.postMessage(request);
+  };
+
+  const handleRun = () => {
+    const whatIfInput = applyWhatIfOverrides(input, overrides);
+    const activityIds = input.activities.map((a) => a.id);
+    const errors = [
+      ...overrides.activities.flatMap((o) =>
+        o.durationDays !== undefined && o.durationDays < 0
+          ? [{ field: 'durationDays', message: `${o.activityId}: duration must be >= 0` }]
+          : validateActivity(whatIfInput.activities.find((a) => a.id === o.activityId)!)
+      ),
+      ...overrides.risks.flatMap((o) =>
+        validateRisk(whatIfInput.risks.find((r) => r.id === o.riskId)!, activityIds)
+      ),
+    ];
+    if (errors.length > 0) {
+      setError(errors[0].message);
+      return;
+    }
+    setError(null);
+    stopSimulation();
+
+    // Without Worker support the simulation runs inline, as part of the what-if analysis
+    const useWorker = typeof Worker !== 'undefined';
+    const whatIf = runWhatIf(input, analysisOutput, overrides, scoringProfile, !useWorker);
+    setResult(whatIf);
+    const request = useWorker ? whatIfSimulationRequest(whatIf.input, analysisOutput) : undefined;
+    if (request) startSimulation(request);
+  };
+
+  const handleReset = () => {
+    stopSimulation();
+    setOverrides({ risks: [], activities: [] });
+    setResult(null);
+    setError(null);
+  };
+
+  const overriddenRiskIds = new Set(overrides.risks.map((o) => o.riskId));
+  const hasOverrides = overrides.risks.length > 0 || overrides.activities.length > 0;
+  const whatIfMonteCarlo = result?.output.monteCarlo;
+
+  const inputClass = 'w-24 px-2 py-1 border border-gray-300 rounded text-sm text-black';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h3 className="text-lg font-semibold mb-2 text-gray-900">What-If Sandbox</h3>
+        <p className="text-sm text-gray-700 mb-4">
+          Override risk or activity values and re-run the analysis on a copy; the register is not changed. Empty
+          fields keep the current value.
+          {baselineMonteCarlo?.enabled &&
+            ` Monte Carlo reuses the baseline seed (${baselineMonteCarlo.seed}) and ${baselineMonteCarlo.iterations} iterations, so differences come from the overrides rather than sampling.`}
+          {baselineCancelled &&
+            ' The baseline simulation was cancelled, so both runs stop at the iterations it completed.'}
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Risks</h4>
+              <select
+                value=""
+                onChange={(e) =>
+                  e.target.value &&
+                  setOverrides({ ...overrides, risks: [...overrides.risks, { riskId: e.target.value }] })
+                }
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+              >
+                <option value="">Add risk…</option>
+                {input.risks
+                  .filter((r) => !overriddenRiskIds.has(r.id))
+                  .map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.id} {r.title}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            {overrides.risks.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-700">
+                    <th className="pb-1">Risk</th>
+                    <th className="pb-1">Probability %</th>
+                    <th className="pb-1">Time impact %</th>
+                    <th className="pb-1">Cost impact %</th>
+                    <th className="pb-1" />
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900">
+                  {overrides.risks.map((o) => {
+                    const risk = input.risks.find((r) => r.id === o.riskId);
+                    return (
+                      <tr key={o.riskId}>
+                        <td className="font-medium">{o.riskId}</td>
+                        <td>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={o.probability ?? ''}
+                            placeholder={String(risk?.probability ?? '')}
+                            onChange={(e) => updateRisk(o.riskId, { probability: parseOverride(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="number"
+                            value={o.timeImpactPercent ?? ''}
+                            placeholder={String(risk?.timeImpactPercent ?? '')}
+                            onChange={(e) =>
+                              updateRisk(o.riskId, { timeImpactPercent: parseOverride(e.target.value) })
+                            }
+                            className={inputClass}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="number"
+                            value={o.costImpactPercent ?? ''}
+                            placeholder={String(risk?.costImpactPercent ?? '')}
+                            onChange={(e) =>
+                              updateRisk(o.riskId, { costImpactPercent: parseOverride(e.target.value) })
+                            }
+                            className={inputClass}
+                          />
+                        </td>
+                        <td>
+                          <button
+                            onClick={() =>
+                              setOverrides({
+                                ...overrides,
+                                risks: overrides.risks.filter((r) => r.riskId !== o.riskId),
+                              })
+                            }
+                            className="text-sm text-red-700 hover:text-red-900"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Activities</h4>
+              <select
+                value=""
+                onChange={(e) =>
+                  e.target.value &&
+                  setOverrides({
+                    ...overrides,
+                    activities: [...overrides.activities, { activityId: e.target.value }],
+                  })
+                }
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-black"
+              >
+                <option value="">Add activity…</option>
+                {level2Activities
+                  .filter((a) => !overrides.activities.some((o) => o.activityId === a.id))
+                  .map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.id} {a.title}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            {overrides.activities.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-700">
+                    <th className="pb-1">Activity</th>
+                    <th className="pb-1">Cost</th>
+                    <th className="pb-1">Duration (days)</th>
+                    <th className="pb-1" />
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900">
+                  {overrides.activities.map((o) => {
+                    const activity = input.activities.find((a) => a.id === o.activityId);
+                    return (
+                      <tr key={o.activityId}>
+                        <td className="font-medium">{o.activityId}</td>
+                        <td>
+                          <input
+                            type="number"
+                            min="0"
+                            value={o.cost ?? ''}
+                            placeholder={String(activity?.cost ?? '')}
+                            onChange={(e) => updateActivity(o.activityId, { cost: parseOverride(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="number"
+                            min="0"
+                            value={o.durationDays ?? ''}
+                            placeholder={
+                              activity ? String(calculateDurationDays(activity.start, activity.end)) : ''
+                            }
+                            onChange={(e) =>
+                              updateActivity(o.activityId, { durationDays: parseOverride(e.target.value) })
+                            }
+                            className={inputClass}
+                          />
+                        </td>
+                        <td>
+                          <button
+                            onClick={() =>
+                              setOverrides({
+                                ...overrides,
+                                activities: overrides.activities.filter((a) => a.activityId !== o.activityId),
+                              })
+                            }
+                            className="text-sm text-red-700 hover:text-red-900"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+        {baselineSimulating && (
+          <p className="mt-3 text-sm text-yellow-800">
+            The baseline simulation is still running; wait for it to finish to compare like with like.
+          </p>
+        )}
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={handleRun}
+            disabled={!hasOverrides || baselineSimulating || progress !== null}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Run What-If
+          </button>
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 bg-gray-200 text-gray-900 rounded-lg hover:bg-gray-300 text-sm font-medium"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200 flex items-center gap-4">
+          <div className="flex-1 h-2 bg-blue-100 rounded">
+            <div
+              className="h-2 bg-blue-600 rounded"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+          <span className="text-sm text-blue-900">
+            Simulating what-if: {progress.completed.toLocaleString()} / {progress.total.toLocaleString()}{' '}
+            iterations
+          </span>
+          <button
+            onClick={stopSimulation}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {result && (
+        <>
+          {baselineMonteCarlo?.enabled && whatIfMonteCarlo?.enabled && (
+            <div className="bg-white p-6 rounded-lg border border-gray-200">
+              <h3 className="text-lg font-semibold mb-4 text-gray-900">Monte Carlo Percentiles</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <PercentileDiff
+                  title="Total Cost"
+                  baseline={baselineMonteCarlo.totalCostDistribution}
+                  whatIf={whatIfMonteCarlo.totalCostDistribution}
+                  unit="cost"
+                />
+                <PercentileDiff
+                  title="Total Duration (days)"
+                  baseline={baselineMonteCarlo.totalDurationDistribution}
+                  whatIf={whatIfMonteCarlo.totalDurationDistribution}
+                  unit="days"
+                />
+              </div>
+              {baselineMonteCarlo.probabilityOverDeadline !== undefined &&
+                whatIfMonteCarlo.probabilityOverDeadline !== undefined && (
+                  <p className="mt-3 text-sm text-gray-900">
+                    P(miss deadline): {(baselineMonteCarlo.probabilityOverDeadline * 100).toFixed(1)}% →{' '}
+                    {(whatIfMonteCarlo.probabilityOverDeadline * 100).toFixed(1)}%
+                  </p>
+                )}
+              {baselineMonteCarlo.probabilityOverBudget !== undefined &&
+                whatIfMonteCarlo.probabilityOverBudget !== undefined && (
+                  <p className="text-sm text-gray-900">
+                    P(exceed budget): {(baselineMonteCarlo.probabilityOverBudget * 100).toFixed(1)}% →{' '}
+                    {(whatIfMonteCarlo.probabilityOverBudget * 100).toFixed(1)}%
+                  </p>
+                )}
+            </div>
+          )}
+
+          <div className="bg-white p-6 rounded-lg border border-gray-200 overflow-x-auto">
+            <h3 className="text-lg font-semibold mb-4 text-gray-900">Per-Risk Comparison</h3>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Risk</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Score Rank</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-900 uppercase">Impact Rank</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Probability</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Expected Days</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Expected Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-900 uppercase">Behavior Score</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-gray-900">
+                {result.risks.map((r) => (
+                  <tr key={r.riskId} className={overriddenRiskIds.has(r.riskId) ? 'bg-blue-50' : ''}>
+                    <td className="px-3 py-2 font-medium">{r.riskId}</td>
+                    <td className="px-3 py-2">
+                      {r.baselineRank} → {r.whatIfRank}
+                    </td>
+                    <td className="px-3 py-2">
+                      {r.baselineImpactRank} → {r.whatIfImpactRank}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {r.baseline.propagatedProbability.toFixed(1)}% → {r.whatIf.propagatedProbability.toFixed(1)}%{' '}
+                      <Change from={r.baseline.propagatedProbability} to={r.whatIf.propagatedProbability} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {r.baseline.expectedTimeImpact.toFixed(2)} → {r.whatIf.expectedTimeImpact.toFixed(2)}{' '}
+                      <Change from={r.baseline.expectedTimeImpact} to={r.whatIf.expectedTimeImpact} digits={2} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {r.baseline.expectedCostImpact.toFixed(2)} → {r.whatIf.expectedCostImpact.toFixed(2)}{' '}
+                      <Change from={r.baseline.expectedCostImpact} to={r.whatIf.expectedCostImpact} digits={2} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {r.baseline.behaviorScore.toFixed(1)} → {r.whatIf.behaviorScore.toFixed(1)}{' '}
+                      <Change from={r.baseline.behaviorScore} to={r.whatIf.behaviorScore} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-700">
+              Highlighted risks have overrides. Ranks are 1 for the highest behavior score or expected impact.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
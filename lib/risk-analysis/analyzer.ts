@@ -8,54 +8,120 @@ import {
   AnalysisOutput,
   RiskAnalysisOutput,
   CombinedScenario,
-  PropagationResult,
+  ImpactTotals,
+  ScoringProfile,
   Risk,
   Activity,
 } from "./types";
 import {
   enrichActivities,
   calculateSingleRisk,
+  calculateTimeImpact,
+  calculateCostImpact,
   calculateCombinedImpact,
-  propagateRisk,
+  calculateDurationDays,
+  calculateMitigation,
+  rankRecommendations,
 } from "./calculations";
-import { runMonteCarloSimulation } from "./monte-carlo";
+import {
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  MonteCarloRun,
+  createMonteCarloRun,
+  isMonteCarloRunComplete,
+  stepMonteCarloRun,
+  summarizeMonteCarloRun,
+} from "./monte-carlo";
+import { calculateSchedule } from "./schedule";
+import { DEFAULT_SCORING_PROFILE } from "./scoring";
+import { propagateProbabilities } from "./propagation";
+import { analyzeRiskNetwork } from "./graph";
+
+/**
+ * Set up the Monte Carlo run for an input, to be advanced in batches (e.g. in a Web Worker)
+ * Deadline is a target finish date, converted to days from the project start
+ */
+export function createMonteCarloRunForInput(
+  input: Input,
+  iterations: number,
+  deadline?: string,
+  budget?: number,
+  seed?: number,
+  tolerance?: number
+): MonteCarloRun {
+  const enrichedActivities = enrichActivities(input.activities);
+  const schedule = calculateSchedule(enrichedActivities);
+
+  // A deadline before the project start counts as 0 days, so every iteration overruns it
+  const deadlineDays =
+    deadline && schedule.projectStart
+      ? calculateDurationDays(schedule.projectStart, deadline)
+      : undefined;
+
+  // Relations are sampled directly, so start from the unpropagated probabilities
+  const run = createMonteCarloRun(
+    input.risks,
+    enrichedActivities,
+    iterations,
+    deadlineDays,
+    budget,
+    seed,
+    tolerance
+  );
+  run.deadlineDate = deadline;
+  return run;
+}
 
 /**
  * Main analysis function
  * Orchestrates all calculations and returns complete analysis output
+ * Deadline is a target finish date, converted to days from the project start
+ * With a tolerance, Monte Carlo stops once percentiles converge (iterations is the cap)
+ * The scoring profile sets the behavior score weights
  */
 export function analyzeRiskBehavior(
   input: Input,
   enableMonteCarlo: boolean = false,
-  monteCarloIterations: number = 7500,
-  deadline?: number,
-  budget?: number
+  monteCarloIterations: number = DEFAULT_MONTE_CARLO_ITERATIONS,
+  deadline?: string,
+  budget?: number,
+  seed?: number,
+  tolerance?: number,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): AnalysisOutput {
   // Step 1: Enrich activities with derived fields
   const enrichedActivities = enrichActivities(input.activities);
 
+  // Step 1b: Critical path through the schedule network
+  const schedule = calculateSchedule(enrichedActivities);
+
+  // Step 1c: Position of each risk in the relation network
+  const networkMetrics = analyzeRiskNetwork(input.risks, scoringProfile.centralityMetric);
+
   // Step 2: Calculate per-risk analysis (initial pass to get max values)
   const initialAnalyses: RiskAnalysisOutput[] = [];
-  for (const risk of input.risks) {
+  for (let i = 0; i < input.risks.length; i++) {
+    const risk = input.risks[i];
     // Use temporary max values (will recalculate)
     const analysis = calculateSingleRisk(
       risk,
       enrichedActivities,
       input.risks,
       1000, // Temporary max
-      100000 // Temporary max
+      100000, // Temporary max
+      scoringProfile,
+      networkMetrics[i]
     );
     initialAnalyses.push(analysis);
   }
 
-  // Step 3: Find max values for normalization
+  // Step 3: Find max values for normalization (by magnitude, so opportunities count too)
   const maxExpectedTimeImpact = Math.max(
     1,
-    ...initialAnalyses.map((a) => a.expectedTimeImpact)
+    ...initialAnalyses.map((a) => Math.abs(a.expectedTimeImpact))
   );
   const maxExpectedCostImpact = Math.max(
     1,
-    ...initialAnalyses.map((a) => a.expectedCostImpact)
+    ...initialAnalyses.map((a) => Math.abs(a.expectedCostImpact))
   );
 
   // Step 4: Recalculate with correct max values
@@ -67,77 +133,32 @@ export function analyzeRiskBehavior(
       enrichedActivities,
       input.risks,
       maxExpectedTimeImpact,
-      maxExpectedCostImpact
+      maxExpectedCostImpact,
+      scoringProfile,
+      networkMetrics[i]
     );
     perRiskAnalysis.push(analysis);
   }
 
-  // Step 5: Propagate risks through relationships
-  // Use iterative approach to handle all relationships properly
-  const propagationResults: PropagationResult[] = [];
-  const propagatedRisks: Risk[] = input.risks.map((r) => ({ ...r }));
-  
-  // Multiple passes to ensure all propagations are captured
-  for (let pass = 0; pass < 3; pass++) {
-    for (const risk of input.risks) {
-      const currentRisk = propagatedRisks.find((r) => r.id === risk.id);
-      if (!currentRisk) continue;
-
-      // Check all risks that might affect this one
-      for (const otherRisk of propagatedRisks) {
-        const relation = otherRisk.relatedRisks.find((rel) => rel.riskId === risk.id);
-        if (relation) {
-          const strength = relation.strength ?? 0.3;
-          const probabilityIncrease = strength * otherRisk.probability;
-          
-          if (probabilityIncrease > 0.1) {
-            const newProbability = Math.min(
-              100,
-              currentRisk.probability + probabilityIncrease
-            );
-            currentRisk.probability = newProbability;
-          }
-        }
-      }
-    }
-  }
-
-  // Create propagation results
-  for (const risk of input.risks) {
-    const propagated = propagatedRisks.find((r) => r.id === risk.id);
-    if (propagated) {
-      propagationResults.push({
-        riskId: risk.id,
-        originalProbability: risk.probability,
-        finalProbability: propagated.probability,
-        propagationPath: [], // Simplified for now
-      });
-
-      // Update analysis with propagated probability
-      const analysisIndex = perRiskAnalysis.findIndex(
-        (a) => a.riskId === risk.id
-      );
-      if (analysisIndex >= 0) {
-        perRiskAnalysis[analysisIndex].propagatedProbability =
-          propagated.probability;
-      }
-    }
-  }
+  // Step 5: Propagate probabilities through relationships (noisy-OR over dependency links)
+  const { results: propagationResults, summary: propagationSummary } =
+    propagateProbabilities(input.risks);
+  const propagatedRisks: Risk[] = input.risks.map((r, i) => ({
+    ...r,
+    probability: propagationResults[i].finalProbability,
+  }));
+  perRiskAnalysis.forEach((analysis, i) => {
+    analysis.propagatedProbability = propagationResults[i].finalProbability;
+  });
 
   // Step 6: Recalculate impacts with propagated probabilities
   for (let i = 0; i < perRiskAnalysis.length; i++) {
     const risk = propagatedRisks[i];
     const analysis = perRiskAnalysis[i];
 
-    // Recalculate with propagated probability
-    const affectedDurationSum = analysis.affectedDurationSum;
-    const affectedCostSum = analysis.affectedCostSum;
-
-    const addedDays = affectedDurationSum * (risk.timeImpactPercent / 100);
-    const expectedTimeImpact = addedDays * (risk.probability / 100);
-
-    const addedCost = affectedCostSum * (risk.costImpactPercent / 100);
-    const expectedCostImpact = addedCost * (risk.probability / 100);
+    // Recalculate with propagated probability (impact distribution means, as in calculateSingleRisk)
+    const { addedDays, expectedTimeImpact } = calculateTimeImpact(risk, analysis.affectedDurationSum);
+    const { addedCost, expectedCostImpact } = calculateCostImpact(risk, analysis.affectedCostSum);
 
     perRiskAnalysis[i] = {
       ...analysis,
@@ -148,6 +169,17 @@ export function analyzeRiskBehavior(
     };
   }
 
+  // Step 6b: Evaluate mitigation options against the propagated expected impacts
+  for (let i = 0; i < perRiskAnalysis.length; i++) {
+    const risk = input.risks[i];
+    perRiskAnalysis[i].recommendations = rankRecommendations(
+      (risk.mitigations ?? []).map((m) => calculateMitigation(risk, m, perRiskAnalysis[i]))
+    );
+  }
+  const recommendations = rankRecommendations(
+    perRiskAnalysis.flatMap((a) => a.recommendations)
+  );
+
   // Step 7: Calculate combined scenarios (top 3 risks by expected impact)
   const top3Risks = [...perRiskAnalysis]
     .sort((a, b) => {
@@ -187,30 +219,49 @@ export function analyzeRiskBehavior(
     (a, b) => b.behaviorScore - a.behaviorScore
   );
 
+  // Largest impacts first, whether threats or opportunities
   const topRisksByExpectedImpact = [...perRiskAnalysis].sort((a, b) => {
-    const impactA = a.expectedTimeImpact + a.expectedCostImpact;
-    const impactB = b.expectedTimeImpact + b.expectedCostImpact;
+    const impactA = Math.abs(a.expectedTimeImpact + a.expectedCostImpact);
+    const impactB = Math.abs(b.expectedTimeImpact + b.expectedCostImpact);
     return impactB - impactA;
   });
 
+  const sumImpacts = (analyses: RiskAnalysisOutput[]): ImpactTotals => ({
+    count: analyses.length,
+    expectedTimeImpact: analyses.reduce((sum, a) => sum + a.expectedTimeImpact, 0),
+    expectedCostImpact: analyses.reduce((sum, a) => sum + a.expectedCostImpact, 0),
+  });
+  const threatTotals = sumImpacts(perRiskAnalysis.filter((a) => a.type === "threat"));
+  const opportunityTotals = sumImpacts(perRiskAnalysis.filter((a) => a.type === "opportunity"));
+
   // Step 9: Optional Monte Carlo simulation
   let monteCarlo;
   if (enableMonteCarlo) {
-    monteCarlo = runMonteCarloSimulation(
-      propagatedRisks,
-      enrichedActivities,
+    const run = createMonteCarloRunForInput(
+      input,
       monteCarloIterations,
       deadline,
-      budget
+      budget,
+      seed,
+      tolerance
     );
+    while (!isMonteCarloRunComplete(run)) {
+      stepMonteCarloRun(run, monteCarloIterations);
+    }
+    monteCarlo = summarizeMonteCarloRun(run);
   }
 
   return {
     perRiskAnalysis,
     combinedScenarios,
     propagationResults,
+    propagationSummary,
     topRisksByBehaviorScore,
     topRisksByExpectedImpact,
+    schedule,
+    recommendations,
+    threatTotals,
+    opportunityTotals,
     monteCarlo,
   };
 }
@@ -7,10 +7,24 @@ import {
   Activity,
   Risk,
   RiskAnalysisOutput,
+  MitigationOption,
+  Recommendation,
   CombinedScenario,
-  PropagationResult,
+  CombinationRule,
+  MarginalContribution,
   Sensitivity,
+  ScoreBreakdown,
+  ScoringProfile,
+  CentralityMetric,
+  RiskNetworkMetrics,
 } from "./types";
+import { DEFAULT_SCORING_PROFILE } from "./scoring";
+import { analyzeRiskNetwork } from "./graph";
+import { expectedImpactPercent, scaleImpactDistribution } from "./distributions";
+
+// Bounds on the additive combination of impact percentages
+const MAX_COMBINED_IMPACT_PERCENT = 200;
+const MIN_COMBINED_IMPACT_PERCENT = -100;
 
 /**
  * Calculate duration in calendar days between two dates
@@ -87,12 +101,14 @@ export function getAffectedCostSum(risk: Risk, activities: Activity[]): number {
  * Calculate single-risk time impact
  * Formula: addedDays_R = affectedDurationSum * (timeImpactPercent / 100)
  * Formula: expectedTimeImpact_R = addedDays_R * (probability / 100)
+ * timeImpactPercent is the mean of the risk's time impact distribution when it has one
  */
 export function calculateTimeImpact(
   risk: Risk,
   affectedDurationSum: number
 ): { addedDays: number; expectedTimeImpact: number } {
-  const addedDays = affectedDurationSum * (risk.timeImpactPercent / 100);
+  const addedDays =
+    affectedDurationSum * (expectedImpactPercent(risk.timeImpactDistribution, risk.timeImpactPercent) / 100);
   const expectedTimeImpact = addedDays * (risk.probability / 100);
   return { addedDays, expectedTimeImpact };
 }
@@ -101,12 +117,14 @@ export function calculateTimeImpact(
  * Calculate single-risk cost impact
  * Formula: addedCost_R = affectedCostSum * (costImpactPercent / 100)
  * Formula: expectedCostImpact_R = addedCost_R * (probability / 100)
+ * costImpactPercent is the mean of the risk's cost impact distribution when it has one
  */
 export function calculateCostImpact(
   risk: Risk,
   affectedCostSum: number
 ): { addedCost: number; expectedCostImpact: number } {
-  const addedCost = affectedCostSum * (risk.costImpactPercent / 100);
+  const addedCost =
+    affectedCostSum * (expectedImpactPercent(risk.costImpactDistribution, risk.costImpactPercent) / 100);
   const expectedCostImpact = addedCost * (risk.probability / 100);
   return { addedCost, expectedCostImpact };
 }
@@ -149,35 +167,15 @@ export function calculateSensitivity(
 
 /**
  * Calculate dependency centrality for a risk
- * Formula: normalized degree in risk network
+ * Formula: chosen network metric (default degree), normalized to 0-100 against the most central risk
+ * To score every risk, call analyzeRiskNetwork once instead
  */
 export function calculateDependencyCentrality(
   risk: Risk,
-  allRisks: Risk[]
+  allRisks: Risk[],
+  metric: CentralityMetric = "degree"
 ): number {
-  // Count incoming and outgoing relations
-  let degree = risk.relatedRisks.length;
-
-  // Count how many other risks reference this risk
-  const incomingCount = allRisks.filter((r) =>
-    r.relatedRisks.some((rel) => rel.riskId === risk.id)
-  ).length;
-
-  degree += incomingCount;
-
-  // Normalize to 0-100 based on max degree in the network
-  const maxDegree = Math.max(
-    1,
-    ...allRisks.map((r) => {
-      const out = r.relatedRisks.length;
-      const in_ = allRisks.filter((other) =>
-        other.relatedRisks.some((rel) => rel.riskId === r.id)
-      ).length;
-      return out + in_;
-    })
-  );
-
-  return (degree / maxDegree) * 100;
+  return analyzeRiskNetwork(allRisks, metric).find((m) => m.riskId === risk.id)?.centrality ?? 0;
 }
 
 /**
@@ -205,6 +203,34 @@ export function calculateDetectabilityScore(risk: Risk): number {
   return risk.trigger && risk.trigger.trim().length > 0 ? 1 : 0.5;
 }
 
+/**
+ * Calculate scope impact score
+ * Formula: scopeImpactScore = min(100, |scopeImpactPercent|)
+ */
+export function calculateScopeImpactScore(risk: Risk): number {
+  return Math.min(100, Math.abs(risk.scopeImpactPercent));
+}
+
+/**
+ * Calculate proximity score: how early in the project the risk can strike
+ * Formula: proximityScore = 100 * (1 - (earliestAffectedStart - projectStart) / (projectFinish - projectStart))
+ * Uses planned dates of Level 2 activities; 0 if the risk affects none
+ */
+export function calculateProximityScore(risk: Risk, activities: Activity[]): number {
+  const dated = activities.filter((a) => a.level === 2 && a.start && a.end);
+  const affected = dated.filter((a) => risk.affectedActivities.includes(a.id));
+  if (affected.length === 0) return 0;
+
+  const time = (date: string) => new Date(date).getTime();
+  const projectStart = Math.min(...dated.map((a) => time(a.start)));
+  const projectFinish = Math.max(...dated.map((a) => time(a.end)));
+  const earliestStart = Math.min(...affected.map((a) => time(a.start)));
+  if (projectFinish <= projectStart) return 100;
+
+  const elapsed = (earliestStart - projectStart) / (projectFinish - projectStart);
+  return Math.max(0, Math.min(100, 100 * (1 - elapsed)));
+}
+
 /**
  * Normalize a value to 0-100 range based on max value in array
  */
@@ -214,54 +240,71 @@ export function normalizeValue(value: number, maxValue: number): number {
 }
 
 /**
- * Calculate behavior score for a risk
- * Formula: behaviorScore =
- *   0.35 * normalized(expectedTimeImpact)
- * + 0.25 * normalized(expectedCostImpact)
- * + 0.20 * dependencyCentrality
- * + 0.15 * timeSensitivityFlag
- * - 0.05 * detectabilityScore
+ * Calculate the weighted behavior score components for a risk
+ * Formula: component = weight * value, with every value on a 0-100 scale:
+ *   timeImpact = normalized(|expectedTimeImpact|)
+ *   costImpact = normalized(|expectedCostImpact|)
+ *   dependencyCentrality (per the profile's centrality metric), timeSensitivity = timeSensitivityFlag * 100,
+ *   detectability = detectabilityScore * 100, scopeImpact, proximity
+ * Default weights: 0.35, 0.25, 0.20, 0.15, -0.05, 0, 0
  */
-export function calculateBehaviorScore(
+export function calculateScoreBreakdown(
   risk: Risk,
   expectedTimeImpact: number,
   expectedCostImpact: number,
-  allRisks: Risk[],
+  dependencyCentrality: number,
   activities: Activity[],
   maxExpectedTimeImpact: number,
-  maxExpectedCostImpact: number
-): number {
+  maxExpectedCostImpact: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreBreakdown {
+  const { weights } = profile;
+
+  // Opportunities (negative impacts) score by the size of the saving
   const normalizedTimeImpact = normalizeValue(
-    expectedTimeImpact,
+    Math.abs(expectedTimeImpact),
     maxExpectedTimeImpact
   );
   const normalizedCostImpact = normalizeValue(
-    expectedCostImpact,
+    Math.abs(expectedCostImpact),
     maxExpectedCostImpact
   );
-  const dependencyCentrality = calculateDependencyCentrality(risk, allRisks);
   const timeSensitivityFlag = calculateTimeSensitivityFlag(risk, activities);
   const detectabilityScore = calculateDetectabilityScore(risk);
 
-  const behaviorScore =
-    0.35 * normalizedTimeImpact +
-    0.25 * normalizedCostImpact +
-    0.2 * dependencyCentrality +
-    0.15 * timeSensitivityFlag * 100 - // Convert flag to 0-100 scale
-    0.05 * detectabilityScore * 100; // Convert score to 0-100 scale
+  // Optional components are only computed when weighted
+  return {
+    timeImpact: weights.timeImpact * normalizedTimeImpact,
+    costImpact: weights.costImpact * normalizedCostImpact,
+    dependencyCentrality: weights.dependencyCentrality * dependencyCentrality,
+    timeSensitivity: weights.timeSensitivity * timeSensitivityFlag * 100,
+    detectability: weights.detectability * detectabilityScore * 100,
+    scopeImpact: weights.scopeImpact ? weights.scopeImpact * calculateScopeImpactScore(risk) : 0,
+    proximity: weights.proximity ? weights.proximity * calculateProximityScore(risk, activities) : 0,
+  };
+}
 
+/**
+ * Calculate behavior score for a risk
+ * Formula: behaviorScore = clamp(sum of weighted components, 0, 100)
+ */
+export function calculateBehaviorScore(breakdown: ScoreBreakdown): number {
+  const behaviorScore = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
   return Math.max(0, Math.min(100, behaviorScore)); // Clamp to 0-100
 }
 
 /**
  * Calculate single-risk analysis
+ * Network metrics are computed for the risk when not passed in
  */
 export function calculateSingleRisk(
   risk: Risk,
   activities: Activity[],
   allRisks: Risk[],
   maxExpectedTimeImpact: number,
-  maxExpectedCostImpact: number
+  maxExpectedCostImpact: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  network?: RiskNetworkMetrics
 ): RiskAnalysisOutput {
   const affectedDurationSum = getAffectedDurationSum(risk, activities);
   const affectedCostSum = getAffectedCostSum(risk, activities);
@@ -284,19 +327,25 @@ export function calculateSingleRisk(
     expectedCostImpact
   );
 
-  const behaviorScore = calculateBehaviorScore(
+  const networkMetrics =
+    network ?? analyzeRiskNetwork(allRisks, profile.centralityMetric).find((m) => m.riskId === risk.id);
+
+  const scoreBreakdown = calculateScoreBreakdown(
     risk,
     expectedTimeImpact,
     expectedCostImpact,
-    allRisks,
+    networkMetrics?.centrality ?? 0,
     activities,
     maxExpectedTimeImpact,
-    maxExpectedCostImpact
+    maxExpectedCostImpact,
+    profile
   );
+  const behaviorScore = calculateBehaviorScore(scoreBreakdown);
 
   return {
     riskId: risk.id,
     title: risk.title,
+    type: risk.type ?? "threat",
     affectedDurationSum,
     affectedCostSum,
     addedDays,
@@ -306,150 +355,202 @@ export function calculateSingleRisk(
     scopeChangeRatio,
     propagatedProbability: risk.probability, // Will be updated by propagation
     behaviorScore,
+    scoreBreakdown,
+    network: networkMetrics,
     sensitivity,
     recommendations: [], // Will be populated if mitigation options provided
   };
 }
 
 /**
- * Calculate combined impact for multiple risks affecting the same activity
- * Formula: combinedTimeImpactPercent = min(200, sum(timeImpactPercent_i))
- * Formula: combinedCostImpactPercent = min(200, sum(costImpactPercent_i))
+ * Evaluate a mitigation option against the risk's current expected impact
+ * Formula: postProbability = residualProbability + (propagatedProbability - probability)
+ *   (the uplift from related risks still applies after mitigation)
+ * Formula: expectedImpact_post = affectedSum * (residualImpactPercent / 100) * (postProbability / 100)
+ *   (residualImpactPercent is the mean of the rescaled distribution when the risk has one)
+ * Formula: ROI = (expectedCostImpact_pre - expectedCostImpact_post - cost) / cost
  */
-export function calculateCombinedImpact(
-  riskIds: string[],
-  risks: Risk[],
-  activities: Activity[]
-): CombinedScenario {
-  const selectedRisks = risks.filter((r) => riskIds.includes(r.id));
-
-  // Find activities affected by all selected risks
-  // Only consider Level 2 activities (Level 1 artifacts have no dates/costs)
-  const commonActivities = activities.filter((a) =>
-    selectedRisks.every((r) => r.affectedActivities.includes(a.id)) && a.level === 2
-  );
-
-  if (commonActivities.length === 0) {
-    return {
-      riskIds,
-      combinedTimeImpactPercent: 0,
-      combinedCostImpactPercent: 0,
-      combinedExpectedTimeImpact: 0,
-      combinedExpectedCostImpact: 0,
-    };
-  }
-
-  // Sum impact percentages (capped at 200%)
-  const combinedTimeImpactPercent = Math.min(
-    200,
-    selectedRisks.reduce((sum, r) => sum + r.timeImpactPercent, 0)
+export function calculateMitigation(
+  risk: Risk,
+  mitigation: MitigationOption,
+  analysis: RiskAnalysisOutput
+): Recommendation {
+  const uplift = analysis.propagatedProbability - risk.probability;
+  const postProbability = Math.max(0, Math.min(100, mitigation.residualProbability + uplift));
+
+  // Applying the option rescales the risk's distributions to the residual impacts (see applyMitigations)
+  const residualTimePercent = expectedImpactPercent(
+    scaleImpactDistribution(
+      risk.timeImpactDistribution,
+      risk.timeImpactPercent,
+      mitigation.residualTimeImpactPercent
+    ),
+    mitigation.residualTimeImpactPercent
   );
-  const combinedCostImpactPercent = Math.min(
-    200,
-    selectedRisks.reduce((sum, r) => sum + r.costImpactPercent, 0)
+  const residualCostPercent = expectedImpactPercent(
+    scaleImpactDistribution(
+      risk.costImpactDistribution,
+      risk.costImpactPercent,
+      mitigation.residualCostImpactPercent
+    ),
+    mitigation.residualCostImpactPercent
   );
 
-  // Calculate combined impacts using the combined percentages
-  // Only sum durations from Level 2 activities with valid dates
-  const affectedDurationSum = commonActivities.reduce((sum, a) => {
-    if (a.level === 2 && a.start && a.end) {
-      const duration = a.durationDays ?? calculateDurationDays(a.start, a.end);
-      return sum + duration;
-    }
-    return sum;
-  }, 0);
+  const postExpectedTimeImpact =
+    analysis.affectedDurationSum * (residualTimePercent / 100) * (postProbability / 100);
+  const postExpectedCostImpact =
+    analysis.affectedCostSum * (residualCostPercent / 100) * (postProbability / 100);
 
-  const affectedCostSum = commonActivities.reduce(
-    (sum, a) => sum + (a.baselineCost ?? a.cost),
-    0
-  );
-
-  // Use average probability of selected risks
-  const avgProbability =
-    selectedRisks.reduce((sum, r) => sum + r.probability, 0) /
-    selectedRisks.length;
-
-  const combinedAddedDays =
-    affectedDurationSum * (combinedTimeImpactPercent / 100);
-  const combinedExpectedTimeImpact =
-    combinedAddedDays * (avgProbability / 100);
-
-  const combinedAddedCost = affectedCostSum * (combinedCostImpactPercent / 100);
-  const combinedExpectedCostImpact =
-    combinedAddedCost * (avgProbability / 100);
+  const costReduction = analysis.expectedCostImpact - postExpectedCostImpact;
 
   return {
-    riskIds,
-    combinedTimeImpactPercent,
-    combinedCostImpactPercent,
-    combinedExpectedTimeImpact,
-    combinedExpectedCostImpact,
+    action: mitigation.description,
+    ROI: mitigation.cost > 0 ? (costReduction - mitigation.cost) / mitigation.cost : undefined,
+    riskId: risk.id,
+    mitigationId: mitigation.id,
+    owner: mitigation.owner,
+    mitigationCost: mitigation.cost,
+    preMitigation: {
+      probability: analysis.propagatedProbability,
+      expectedTimeImpact: analysis.expectedTimeImpact,
+      expectedCostImpact: analysis.expectedCostImpact,
+    },
+    postMitigation: {
+      probability: postProbability,
+      expectedTimeImpact: postExpectedTimeImpact,
+      expectedCostImpact: postExpectedCostImpact,
+    },
   };
 }
 
 /**
- * Propagate risk probabilities through relationships
- * Formula: P_target_new = min(100, P_target + strength * P_source)
- * Stop after depth 3 OR no further changes > 0.1%
+ * Rank recommendations: cost-free options first, then by ROI,
+ * then by expected days saved
  */
-export function propagateRisk(
-  risk: Risk,
-  allRisks: Risk[],
-  visited: Set<string> = new Set(),
-  depth: number = 0,
-  path: string[] = []
-): PropagationResult {
-  if (depth > 3 || visited.has(risk.id)) {
-    return {
-      riskId: risk.id,
-      originalProbability: risk.probability,
-      finalProbability: risk.probability,
-      propagationPath: path,
-    };
-  }
-
-  visited.add(risk.id);
-  const newPath = [...path, risk.id];
+export function rankRecommendations(recommendations: Recommendation[]): Recommendation[] {
+  const daysSaved = (r: Recommendation) =>
+    (r.preMitigation?.expectedTimeImpact ?? 0) - (r.postMitigation?.expectedTimeImpact ?? 0);
+
+  return [...recommendations].sort((a, b) => {
+    const roiA = a.ROI ?? Infinity;
+    const roiB = b.ROI ?? Infinity;
+    if (roiA !== roiB) return roiB - roiA;
+    return daysSaved(b) - daysSaved(a);
+  });
+}
 
-  let finalProbability = risk.probability;
+/**
+ * Combine the impact percentages of the scenario risks that hit one activity
+ * Formula (independent): combined = (Π (1 + percent_i / 100) − 1) * 100
+ * Formula (additive): combined = clamp(Σ percent_i, −100, 200)
+ * Formula (maxOf): combined = percent_i with the largest magnitude
+ */
+function combineImpactPercents(percents: number[], rule: CombinationRule): number {
+  switch (rule) {
+    case "independent":
+      return (percents.reduce((factor, p) => factor * Math.max(0, 1 + p / 100), 1) - 1) * 100;
+    case "maxOf":
+      return percents.reduce((largest, p) => (Math.abs(p) > Math.abs(largest) ? p : largest), 0);
+    case "additive":
+      return Math.max(
+        MIN_COMBINED_IMPACT_PERCENT,
+        Math.min(MAX_COMBINED_IMPACT_PERCENT, percents.reduce((sum, p) => sum + p, 0))
+      );
+    default: {
+      const unknownRule: never = rule;
+      throw new Error(`Unknown combination rule: ${unknownRule}`);
+    }
+  }
+}
 
-  // Process each related risk
-  for (const relation of risk.relatedRisks) {
-    const relatedRisk = allRisks.find((r) => r.id === relation.riskId);
-    if (!relatedRisk) continue;
+/**
+ * Added days and cost if every given risk occurs, over the union of their Level 2 activities
+ * Formula: addedDays = Σ over affected activities of duration_a * combined(expected time impact % of risks hitting a) / 100
+ * Expected impact percentages are distribution means, as for the per-risk expected impacts
+ */
+function scenarioAddedImpact(
+  selectedRisks: Risk[],
+  activities: Activity[],
+  rule: CombinationRule
+): { addedDays: number; addedCost: number; durationSum: number; costSum: number; activityIds: string[] } {
+  let addedDays = 0;
+  let addedCost = 0;
+  let durationSum = 0;
+  let costSum = 0;
+  const activityIds: string[] = [];
+
+  // Level 1 artifacts have no dates/costs
+  for (const activity of activities) {
+    if (activity.level !== 2) continue;
+    const hitting = selectedRisks.filter((r) => r.affectedActivities.includes(activity.id));
+    if (hitting.length === 0) continue;
+
+    const duration =
+      activity.start && activity.end
+        ? activity.durationDays ?? calculateDurationDays(activity.start, activity.end)
+        : 0;
+    const cost = activity.baselineCost ?? activity.cost;
+    activityIds.push(activity.id);
+    durationSum += duration;
+    costSum += cost;
+    const timePercents = hitting.map((r) => expectedImpactPercent(r.timeImpactDistribution, r.timeImpactPercent));
+    const costPercents = hitting.map((r) => expectedImpactPercent(r.costImpactDistribution, r.costImpactPercent));
+    addedDays += duration * (combineImpactPercents(timePercents, rule) / 100);
+    addedCost += cost * (combineImpactPercents(costPercents, rule) / 100);
+  }
 
-    const strength = relation.strength ?? 0.3; // Default 0.3
-    const probabilityIncrease = strength * risk.probability;
+  return { addedDays, addedCost, durationSum, costSum, activityIds };
+}
 
-    // Only propagate if change is significant (> 0.1%)
-    if (probabilityIncrease > 0.1) {
-      const newProbability = Math.min(
-        100,
-        relatedRisk.probability + probabilityIncrease
-      );
+/**
+ * Joint probability (%) that every risk occurs, treating them as independent
+ * Formula: jointProbability = Π (probability_i / 100) * 100
+ */
+function jointProbability(selectedRisks: Risk[]): number {
+  return selectedRisks.reduce((p, r) => p * (Math.max(0, Math.min(100, r.probability)) / 100), 1) * 100;
+}
 
-      // Recursively propagate if depth allows
-      if (depth < 3 && Math.abs(newProbability - relatedRisk.probability) > 0.1) {
-        const propagatedRelated = propagateRisk(
-          { ...relatedRisk, probability: newProbability },
-          allRisks,
-          new Set(visited),
-          depth + 1,
-          newPath
-        );
-        finalProbability = Math.max(
-          finalProbability,
-          propagatedRelated.finalProbability
-        );
-      }
-    }
-  }
+/**
+ * Calculate the combined impact of a set of risks occurring together
+ * Risks should carry propagated probabilities
+ * Formula: combinedExpectedTimeImpact = addedDays * (jointProbability / 100)
+ * Formula: combinedTimeImpactPercent = addedDays / Σ duration of affected activities * 100
+ * Formula: marginal_i = addedImpact(scenario) − addedImpact(scenario without risk i)
+ */
+export function calculateCombinedImpact(
+  riskIds: string[],
+  risks: Risk[],
+  activities: Activity[],
+  rule: CombinationRule = "additive"
+): CombinedScenario {
+  const selectedRisks = risks.filter((r) => riskIds.includes(r.id));
+  const probability = jointProbability(selectedRisks);
+  const impact = scenarioAddedImpact(selectedRisks, activities, rule);
+
+  const marginalContributions: MarginalContribution[] = selectedRisks.map((risk) => {
+    const without = scenarioAddedImpact(
+      selectedRisks.filter((r) => r.id !== risk.id),
+      activities,
+      rule
+    );
+    return {
+      riskId: risk.id,
+      addedDays: impact.addedDays - without.addedDays,
+      addedCost: impact.addedCost - without.addedCost,
+    };
+  });
 
   return {
-    riskId: risk.id,
-    originalProbability: risk.probability,
-    finalProbability,
-    propagationPath: newPath,
+    riskIds,
+    rule,
+    jointProbability: probability,
+    affectedActivityIds: impact.activityIds,
+    addedDays: impact.addedDays,
+    addedCost: impact.addedCost,
+    combinedTimeImpactPercent: impact.durationSum > 0 ? (impact.addedDays / impact.durationSum) * 100 : 0,
+    combinedCostImpactPercent: impact.costSum > 0 ? (impact.addedCost / impact.costSum) * 100 : 0,
+    combinedExpectedTimeImpact: impact.addedDays * (probability / 100),
+    combinedExpectedCostImpact: impact.addedCost * (probability / 100),
+    marginalContributions,
   };
 }
-
@@ -0,0 +1,206 @@
+/**
+ * Correlated risk occurrence for Monte Carlo
+ * - dependency A → B: when A fires, B's probability rises to 1 − (1 − P_B)(1 − strength)
+ *   Dependency cycles are resolved to a fixed point, as in propagation.ts, so the result does
+ *   not depend on the order the risks are listed in
+ * - concurrent A ↔ B: occurrences are coupled by a Gaussian copula with correlation = strength
+ * Relation direction follows relatedRisks: A.relatedRisks contains { riskId: B }
+ */
+
+import { Risk, DEFAULT_RELATION_STRENGTH } from "./types";
+import { RandomGenerator } from "./random";
+import { normalRandom } from "./distributions";
+import { stronglyConnectedComponents } from "./graph";
+
+// Shrink factor applied to off-diagonal correlations until the matrix is positive definite
+const CORRELATION_SHRINK = 0.95;
+const MAX_SHRINK_STEPS = 100;
+
+export interface CorrelationModel {
+  components: number[][]; // Risk indexes grouped by dependency cycle, sources before their targets
+  parents: { index: number; strength: number }[][]; // Dependency sources per risk
+  copulaMembers: number[]; // Risk indexes with at least one concurrent link
+  cholesky: number[][] | null; // Lower-triangular factor of the members' correlation matrix
+  dependencyLinks: number;
+  concurrentLinks: number;
+  matrixAdjusted: boolean; // Correlations were shrunk to make the matrix valid
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Cholesky factor of a symmetric matrix, or null if it is not positive definite
+ */
+function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+/**
+ * Dependency cycles (and single risks off any cycle), sources before their targets
+ */
+function dependencyComponents(count: number, parents: { index: number }[][]): number[][] {
+  const children: number[][] = Array.from({ length: count }, () => []);
+  parents.forEach((list, target) => list.forEach((p) => children[p.index].push(target)));
+  return stronglyConnectedComponents(children);
+}
+
+/**
+ * Build the occurrence model from the relatedRisks graph
+ */
+export function buildCorrelationModel(risks: Risk[]): CorrelationModel {
+  const indexById = new Map(risks.map((r, i) => [r.id, i]));
+  const parents: { index: number; strength: number }[][] = risks.map(() => []);
+  const concurrent = new Map<string, number>(); // "i,j" with i < j -> correlation
+  let dependencyLinks = 0;
+
+  risks.forEach((risk, source) => {
+    for (const relation of risk.relatedRisks) {
+      const target = indexById.get(relation.riskId);
+      if (target === undefined || target === source) continue;
+      const strength = Math.max(0, Math.min(1, relation.strength ?? DEFAULT_RELATION_STRENGTH));
+
+      if (relation.relationType === "dependency") {
+        parents[target].push({ index: source, strength });
+        dependencyLinks++;
+      } else {
+        // A link in either direction couples both risks; keep the stronger one
+        const key = source < target ? `${source},${target}` : `${target},${source}`;
+        concurrent.set(key, Math.max(concurrent.get(key) ?? 0, strength));
+      }
+    }
+  });
+
+  const memberSet = new Set<number>();
+  Array.from(concurrent.keys()).forEach((key) =>
+    key.split(",").forEach((i) => memberSet.add(parseInt(i, 10)))
+  );
+  const copulaMembers = Array.from(memberSet).sort((a, b) => a - b);
+  const position = new Map(copulaMembers.map((index, k) => [index, k]));
+
+  let factor: number[][] | null = null;
+  let matrixAdjusted = false;
+  if (copulaMembers.length > 0) {
+    let scale = 1;
+    for (let step = 0; step <= MAX_SHRINK_STEPS && !factor; step++) {
+      const matrix: number[][] = copulaMembers.map((_, a) =>
+        copulaMembers.map((__, b) => (a === b ? 1 : 0))
+      );
+      concurrent.forEach((correlation, key) => {
+        const [i, j] = key.split(",").map((v) => position.get(parseInt(v, 10))!);
+        matrix[i][j] = matrix[j][i] = correlation * scale;
+      });
+      factor = cholesky(matrix);
+      if (!factor) {
+        scale *= CORRELATION_SHRINK;
+        matrixAdjusted = true;
+      }
+    }
+  }
+
+  return {
+    components: dependencyComponents(risks.length, parents),
+    parents,
+    copulaMembers,
+    cholesky: factor,
+    dependencyLinks,
+    concurrentLinks: concurrent.size,
+    matrixAdjusted,
+  };
+}
+
+/**
+ * Model with every risk sampled as an independent Bernoulli trial
+ */
+export function independentCorrelationModel(risks: Risk[]): CorrelationModel {
+  return {
+    components: risks.map((_, i) => [i]),
+    parents: risks.map(() => []),
+    copulaMembers: [],
+    cholesky: null,
+    dependencyLinks: 0,
+    concurrentLinks: 0,
+    matrixAdjusted: false,
+  };
+}
+
+/**
+ * Sample which risks fire in one iteration
+ */
+export function sampleOccurrences(
+  model: CorrelationModel,
+  risks: Risk[],
+  random: RandomGenerator
+): boolean[] {
+  const uniforms = new Array<number>(risks.length);
+
+  // Correlated uniforms for copula members: U = Φ(L·ε)
+  if (model.cholesky) {
+    const epsilon = model.copulaMembers.map(() => normalRandom(random));
+    model.copulaMembers.forEach((index, a) => {
+      let z = 0;
+      for (let b = 0; b <= a; b++) z += model.cholesky![a][b] * epsilon[b];
+      uniforms[index] = normalCdf(z);
+    });
+  }
+  for (let i = 0; i < risks.length; i++) {
+    if (uniforms[i] === undefined) uniforms[i] = random();
+  }
+
+  const fired = new Array<boolean>(risks.length).fill(false);
+  const fires = (index: number) => {
+    let probability = risks[index].probability / 100;
+    for (const parent of model.parents[index]) {
+      if (fired[parent.index]) {
+        probability = 1 - (1 - probability) * (1 - parent.strength);
+      }
+    }
+    return uniforms[index] < probability;
+  };
+
+  for (const component of model.components) {
+    if (component.length === 1) {
+      fired[component[0]] = fires(component[0]);
+      continue;
+    }
+    // On a cycle, passes repeat until no member changes; a fired risk only raises the others'
+    // probabilities, so members only ever switch on and at most component.length passes are needed
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const index of component) {
+        if (!fired[index] && fires(index)) {
+          fired[index] = true;
+          changed = true;
+        }
+      }
+    }
+  }
+  return fired;
+}
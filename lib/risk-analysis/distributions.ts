@@ -0,0 +1,219 @@
+/**
+ * Impact distributions for Monte Carlo sampling
+ * All values are impact percentages (e.g. 20 = +20% of the affected duration or cost)
+ */
+
+import { ImpactDistribution, ImpactDistributionType, ThreePointEstimate } from "./types";
+import { RandomGenerator } from "./random";
+
+export const IMPACT_DISTRIBUTION_LABELS: Record<ImpactDistributionType, string> = {
+  triangular: "Triangular (min / most likely / max)",
+  pert: "PERT (min / most likely / max)",
+  uniform: "Uniform (min / max)",
+  lognormal: "Lognormal (mean / std dev)",
+  discrete: "Discrete scenarios",
+};
+
+/**
+ * Distribution used when a risk has no explicit spec
+ * Triangular at 0.8×/1.0×/1.2× of the point estimate (mirrored for negative opportunity impacts)
+ */
+export function defaultImpactDistribution(impactPercent: number): ImpactDistribution {
+  return {
+    type: "triangular",
+    min: Math.min(impactPercent * 0.8, impactPercent * 1.2),
+    mostLikely: impactPercent,
+    max: Math.max(impactPercent * 0.8, impactPercent * 1.2),
+  };
+}
+
+/**
+ * Rescale a distribution from one point estimate to another, keeping its shape
+ * Returns undefined (use the default) when there is no spec or the old estimate is 0
+ */
+export function scaleImpactDistribution(
+  distribution: ImpactDistribution | undefined,
+  fromPercent: number,
+  toPercent: number
+): ImpactDistribution | undefined {
+  if (!distribution || fromPercent === 0) return undefined;
+  const factor = toPercent / fromPercent;
+  const scale = (value?: number) => (value === undefined ? undefined : value * factor);
+  return {
+    ...distribution,
+    min: scale(distribution.min),
+    mostLikely: scale(distribution.mostLikely),
+    max: scale(distribution.max),
+    mean: scale(distribution.mean),
+    stdDev: scale(distribution.stdDev),
+    outcomes: distribution.outcomes?.map((o) => ({ ...o, value: o.value * factor })),
+  };
+}
+
+/**
+ * Generate triangular distribution random value
+ */
+export function triangularRandom(
+  min: number,
+  mode: number,
+  max: number,
+  random: RandomGenerator
+): number {
+  const u = random();
+  if (max <= min) return mode;
+  const fc = (mode - min) / (max - min);
+
+  if (u < fc) {
+    return min + Math.sqrt(u * (max - min) * (mode - min));
+  } else {
+    return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  }
+}
+
+/**
+ * Standard normal via Box-Muller
+ */
+export function normalRandom(random: RandomGenerator): number {
+  const u1 = Math.max(random(), Number.MIN_VALUE);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Gamma(shape, 1) via Marsaglia-Tsang
+ */
+function gammaRandom(shape: number, random: RandomGenerator): number {
+  if (shape < 1) {
+    return gammaRandom(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = normalRandom(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Beta-PERT: Beta(α, β) scaled to [min, max] with
+ * α = 1 + 4(mode − min)/(max − min), β = 1 + 4(max − mode)/(max − min)
+ */
+function pertRandom(min: number, mode: number, max: number, random: RandomGenerator): number {
+  if (max <= min) return mode;
+  const alpha = 1 + (4 * (mode - min)) / (max - min);
+  const beta = 1 + (4 * (max - mode)) / (max - min);
+  const x = gammaRandom(alpha, random);
+  const y = gammaRandom(beta, random);
+  return min + (x / (x + y)) * (max - min);
+}
+
+/**
+ * Lognormal with the given arithmetic mean and standard deviation
+ * σ² = ln(1 + s²/m²), μ = ln(m) − σ²/2
+ */
+function lognormalRandom(mean: number, stdDev: number, random: RandomGenerator): number {
+  if (mean <= 0 || stdDev <= 0) return Math.max(0, mean);
+  const sigma2 = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+  const mu = Math.log(mean) - sigma2 / 2;
+  return Math.exp(mu + Math.sqrt(sigma2) * normalRandom(random));
+}
+
+/**
+ * Sample an impact percentage from a distribution spec
+ */
+export function sampleImpact(distribution: ImpactDistribution, random: RandomGenerator): number {
+  const min = distribution.min ?? 0;
+  const max = distribution.max ?? min;
+  const mostLikely = distribution.mostLikely ?? (min + max) / 2;
+
+  switch (distribution.type) {
+    case "triangular":
+      return triangularRandom(min, mostLikely, max, random);
+    case "pert":
+      return pertRandom(min, mostLikely, max, random);
+    case "uniform":
+      return min + random() * (max - min);
+    case "lognormal": {
+      // A negative mean (opportunity) samples the mirror image of the positive distribution
+      const mean = distribution.mean ?? 0;
+      const stdDev = distribution.stdDev ?? 0;
+      return mean < 0 ? -lognormalRandom(-mean, stdDev, random) : lognormalRandom(mean, stdDev, random);
+    }
+    case "discrete": {
+      const outcomes = distribution.outcomes ?? [];
+      const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+      let u = random() * total;
+      for (const outcome of outcomes) {
+        u -= outcome.probability;
+        if (u < 0) return outcome.value;
+      }
+      return outcomes[outcomes.length - 1]?.value ?? 0;
+    }
+  }
+}
+
+/**
+ * Sample an activity's three-point estimate (PERT unless triangular is chosen)
+ */
+export function sampleThreePointEstimate(
+  estimate: ThreePointEstimate,
+  random: RandomGenerator
+): number {
+  return sampleImpact(
+    {
+      type: estimate.distribution ?? "pert",
+      min: estimate.optimistic,
+      mostLikely: estimate.mostLikely,
+      max: estimate.pessimistic,
+    },
+    random
+  );
+}
+
+/**
+ * Mean of a distribution spec, for comparing against the point estimate
+ */
+export function impactDistributionMean(distribution: ImpactDistribution): number {
+  const min = distribution.min ?? 0;
+  const max = distribution.max ?? min;
+  const mostLikely = distribution.mostLikely ?? (min + max) / 2;
+
+  switch (distribution.type) {
+    case "triangular":
+      return (min + mostLikely + max) / 3;
+    case "pert":
+      return (min + 4 * mostLikely + max) / 6;
+    case "uniform":
+      return (min + max) / 2;
+    case "lognormal":
+      return distribution.mean ?? 0;
+    case "discrete": {
+      const outcomes = distribution.outcomes ?? [];
+      const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+      return total > 0
+        ? outcomes.reduce((sum, o) => sum + o.value * o.probability, 0) / total
+        : 0;
+    }
+  }
+}
+
+/**
+ * Impact percentage the deterministic analysis uses, so expected impacts agree with Monte Carlo:
+ * the distribution's mean when one is configured, otherwise the point estimate
+ * (the default distribution is symmetric around it)
+ */
+export function expectedImpactPercent(
+  distribution: ImpactDistribution | undefined,
+  impactPercent: number
+): number {
+  return distribution ? impactDistributionMean(distribution) : impactPercent;
+}
@@ -0,0 +1,201 @@
+/**
+ * Browser storage for autosaved sessions, named drafts and scoring profiles
+ * Drafts are stored as project files, so older drafts migrate the same way saved files do
+ */
+
+import { DraftSummary, ProjectFile, ScoringProfile } from "./types";
+import { migrateProjectFile, serializeProjectFile } from "./project-file";
+import { normalizeScoringProfile } from "./scoring";
+
+const STORAGE_PREFIX = "projetools-risk-analysis";
+const AUTOSAVE_KEY = `${STORAGE_PREFIX}:autosave`;
+const DRAFT_INDEX_KEY = `${STORAGE_PREFIX}:drafts`;
+const SCORING_PROFILES_KEY = `${STORAGE_PREFIX}:scoring-profiles`;
+
+function draftKey(id: string): string {
+  return `${STORAGE_PREFIX}:draft:${id}`;
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    // Access can throw when storage is disabled (e.g. some private browsing modes)
+    return null;
+  }
+}
+
+/**
+ * Write a project file, dropping the results if they do not fit in the storage quota
+ * Returns false if the file could not be stored at all
+ */
+function writeProjectFile(storage: Storage, key: string, file: ProjectFile): boolean {
+  try {
+    storage.setItem(key, serializeProjectFile(file));
+    return true;
+  } catch {
+    if (!file.results) return false;
+    try {
+      storage.setItem(key, serializeProjectFile({ ...file, results: undefined }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function readProjectFile(storage: Storage, key: string): ProjectFile | null {
+  const text = storage.getItem(key);
+  if (!text) return null;
+  try {
+    return migrateProjectFile(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether browser storage is available for autosave and drafts
+ */
+export function isDraftStorageAvailable(): boolean {
+  return getStorage() !== null;
+}
+
+/**
+ * Autosave the current session, replacing the previous autosave
+ */
+export function saveAutosave(file: ProjectFile): boolean {
+  const storage = getStorage();
+  return storage ? writeProjectFile(storage, AUTOSAVE_KEY, file) : false;
+}
+
+/**
+ * Load the autosaved session, or null if there is none or it cannot be read
+ */
+export function loadAutosave(): ProjectFile | null {
+  const storage = getStorage();
+  return storage ? readProjectFile(storage, AUTOSAVE_KEY) : null;
+}
+
+export function clearAutosave(): void {
+  getStorage()?.removeItem(AUTOSAVE_KEY);
+}
+
+/**
+ * List named drafts, most recently saved first
+ */
+export function listDrafts(): DraftSummary[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const drafts = JSON.parse(storage.getItem(DRAFT_INDEX_KEY) ?? "[]");
+    if (!Array.isArray(drafts)) return [];
+    return (drafts as DraftSummary[]).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a named draft; a draft with the same name is overwritten
+ * Throws if browser storage is unavailable or full
+ */
+export function saveDraft(name: string, file: ProjectFile): DraftSummary {
+  const storage = getStorage();
+  if (!storage) {
+    throw new Error("Browser storage is not available");
+  }
+
+  const drafts = listDrafts();
+  const existing = drafts.find((d) => d.name === name);
+  const summary: DraftSummary = {
+    id: existing?.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    savedAt: new Date().toISOString(),
+    activityCount: file.input.activities.length,
+    riskCount: file.input.risks.length,
+  };
+
+  if (!writeProjectFile(storage, draftKey(summary.id), { ...file, name })) {
+    throw new Error("Browser storage is full; delete some drafts and try again");
+  }
+  storage.setItem(
+    DRAFT_INDEX_KEY,
+    JSON.stringify([summary, ...drafts.filter((d) => d.id !== summary.id)])
+  );
+  return summary;
+}
+
+/**
+ * Load a named draft, or null if it is missing or cannot be read
+ */
+export function loadDraft(id: string): ProjectFile | null {
+  const storage = getStorage();
+  return storage ? readProjectFile(storage, draftKey(id)) : null;
+}
+
+export function deleteDraft(id: string): void {
+  const storage = getStorage();
+  if (!storage) return;
+  storage.removeItem(draftKey(id));
+  storage.setItem(
+    DRAFT_INDEX_KEY,
+    JSON.stringify(listDrafts().filter((d) => d.id !== id))
+  );
+}
+
+/**
+ * Remove the autosave and all named drafts
+ */
+export function clearAllDrafts(): void {
+  const storage = getStorage();
+  if (!storage) return;
+  for (const draft of listDrafts()) {
+    storage.removeItem(draftKey(draft.id));
+  }
+  storage.removeItem(DRAFT_INDEX_KEY);
+  storage.removeItem(AUTOSAVE_KEY);
+}
+
+/**
+ * List saved scoring profiles by name
+ */
+export function listScoringProfiles(): ScoringProfile[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const profiles = JSON.parse(storage.getItem(SCORING_PROFILES_KEY) ?? "[]");
+    if (!Array.isArray(profiles)) return [];
+    return (profiles as ScoringProfile[])
+      .map(normalizeScoringProfile)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a scoring profile; a profile with the same name is overwritten
+ * Throws if browser storage is unavailable or full
+ */
+export function saveScoringProfile(profile: ScoringProfile): void {
+  const storage = getStorage();
+  if (!storage) {
+    throw new Error("Browser storage is not available");
+  }
+  const profiles = listScoringProfiles().filter((p) => p.name !== profile.name);
+  try {
+    storage.setItem(SCORING_PROFILES_KEY, JSON.stringify([...profiles, profile]));
+  } catch {
+    throw new Error("Browser storage is full; delete some drafts and try again");
+  }
+}
+
+export function deleteScoringProfile(name: string): void {
+  const storage = getStorage();
+  if (!storage) return;
+  storage.setItem(
+    SCORING_PROFILES_KEY,
+    JSON.stringify(listScoringProfiles().filter((p) => p.name !== name))
+  );
+}
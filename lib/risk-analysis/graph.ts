@@ -0,0 +1,258 @@
+/**
+ * Graph analytics for the risk relation network
+ * Dependency A → B is one directed edge; concurrent A ↔ B is an edge each way
+ * Edge weight is the relation strength; path length for betweenness is −ln(strength),
+ * so the shortest path is the one whose strengths have the largest product
+ * Relation direction follows relatedRisks: A.relatedRisks contains { riskId: B }
+ */
+
+import { CentralityMetric, Risk, RiskNetworkMetrics, DEFAULT_RELATION_STRENGTH } from "./types";
+
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_TOLERANCE = 1e-10;
+const MAX_PAGE_RANK_ITERATIONS = 200;
+// Floor on edge length so strength-1 links do not create zero-length paths
+const MIN_EDGE_LENGTH = 1e-6;
+
+export interface GraphEdge {
+  source: number;
+  target: number;
+  weight: number;
+  dependency: boolean;
+}
+
+export interface RiskGraph {
+  ids: string[];
+  edges: GraphEdge[];
+  outgoing: GraphEdge[][];
+  incoming: GraphEdge[][];
+}
+
+/**
+ * Build the directed, weighted graph, ignoring unknown IDs and self-links
+ */
+export function buildRiskGraph(risks: Risk[]): RiskGraph {
+  const indexById = new Map(risks.map((r, i) => [r.id, i]));
+  const edges: GraphEdge[] = [];
+
+  risks.forEach((risk, source) => {
+    for (const relation of risk.relatedRisks) {
+      const target = indexById.get(relation.riskId);
+      if (target === undefined || target === source) continue;
+      const weight = Math.max(0, Math.min(1, relation.strength ?? DEFAULT_RELATION_STRENGTH));
+      if (relation.relationType === "dependency") {
+        edges.push({ source, target, weight, dependency: true });
+      } else {
+        edges.push({ source, target, weight, dependency: false });
+        edges.push({ source: target, target: source, weight, dependency: false });
+      }
+    }
+  });
+
+  const outgoing: GraphEdge[][] = risks.map(() => []);
+  const incoming: GraphEdge[][] = risks.map(() => []);
+  for (const edge of edges) {
+    outgoing[edge.source].push(edge);
+    incoming[edge.target].push(edge);
+  }
+
+  return { ids: risks.map((r) => r.id), edges, outgoing, incoming };
+}
+
+/**
+ * Strongly connected components (Tarjan), sources first
+ * edges[i] lists the targets of node i
+ */
+export function stronglyConnectedComponents(edges: number[][]): number[][] {
+  const count = edges.length;
+  const index = new Array<number>(count).fill(-1);
+  const lowLink = new Array<number>(count).fill(0);
+  const onStack = new Array<boolean>(count).fill(false);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let nextIndex = 0;
+
+  const visit = (node: number) => {
+    index[node] = lowLink[node] = nextIndex++;
+    stack.push(node);
+    onStack[node] = true;
+
+    for (const target of edges[node]) {
+      if (index[target] === -1) {
+        visit(target);
+        lowLink[node] = Math.min(lowLink[node], lowLink[target]);
+      } else if (onStack[target]) {
+        lowLink[node] = Math.min(lowLink[node], index[target]);
+      }
+    }
+
+    if (lowLink[node] === index[node]) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack[member] = false;
+        component.push(member);
+      } while (member !== node);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (let node = 0; node < count; node++) {
+    if (index[node] === -1) visit(node);
+  }
+
+  // Tarjan emits sinks first
+  return components.reverse();
+}
+
+/**
+ * Risk IDs of each dependency cycle (strongly connected component with more than one risk)
+ */
+export function findDependencyCycles(risks: Risk[]): string[][] {
+  const graph = buildRiskGraph(risks);
+  const targets = graph.outgoing.map((list) => list.filter((e) => e.dependency).map((e) => e.target));
+  return stronglyConnectedComponents(targets)
+    .filter((c) => c.length > 1)
+    .map((c) => c.map((i) => graph.ids[i]));
+}
+
+/**
+ * Betweenness centrality (Brandes, Dijkstra on −ln(strength) lengths)
+ * Formula: betweenness_v = Σ over s ≠ v ≠ t of σ_st(v) / σ_st, divided by (n − 1)(n − 2)
+ */
+export function betweennessCentrality(graph: RiskGraph): number[] {
+  const n = graph.ids.length;
+  const centrality = new Array<number>(n).fill(0);
+  const length = (edge: GraphEdge) => Math.max(MIN_EDGE_LENGTH, -Math.log(edge.weight));
+
+  for (let s = 0; s < n; s++) {
+    const distance = new Array<number>(n).fill(Infinity);
+    const paths = new Array<number>(n).fill(0);
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const settled: number[] = [];
+    const done = new Array<boolean>(n).fill(false);
+    distance[s] = 0;
+    paths[s] = 1;
+
+    // Networks are small, so a linear scan stands in for a priority queue
+    for (;;) {
+      let v = -1;
+      for (let i = 0; i < n; i++) {
+        if (!done[i] && distance[i] < Infinity && (v === -1 || distance[i] < distance[v])) v = i;
+      }
+      if (v === -1) break;
+      done[v] = true;
+      settled.push(v);
+
+      for (const edge of graph.outgoing[v]) {
+        if (edge.weight <= 0) continue;
+        const w = edge.target;
+        const candidate = distance[v] + length(edge);
+        if (candidate < distance[w] - 1e-12) {
+          distance[w] = candidate;
+          paths[w] = paths[v];
+          predecessors[w] = [v];
+        } else if (Math.abs(candidate - distance[w]) <= 1e-12 && !predecessors[w].includes(v)) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(n).fill(0);
+    for (let k = settled.length - 1; k >= 0; k--) {
+      const w = settled[k];
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      }
+      if (w !== s) centrality[w] += dependency[w];
+    }
+  }
+
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return centrality.map((c) => c * scale);
+}
+
+/**
+ * Weighted PageRank: rank flows along edges in proportion to strength
+ * Risks with no outgoing strength spread their rank evenly
+ */
+export function pageRank(graph: RiskGraph): number[] {
+  const n = graph.ids.length;
+  if (n === 0) return [];
+  const outWeight = graph.outgoing.map((list) => list.reduce((sum, e) => sum + e.weight, 0));
+  let rank = new Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < MAX_PAGE_RANK_ITERATIONS; iteration++) {
+    const dangling = rank.reduce((sum, r, i) => (outWeight[i] > 0 ? sum : sum + r), 0);
+    const next = new Array<number>(n).fill((1 - PAGE_RANK_DAMPING) / n + (PAGE_RANK_DAMPING * dangling) / n);
+    for (const edge of graph.edges) {
+      if (outWeight[edge.source] > 0) {
+        next[edge.target] += (PAGE_RANK_DAMPING * rank[edge.source] * edge.weight) / outWeight[edge.source];
+      }
+    }
+    const change = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (change < PAGE_RANK_TOLERANCE) break;
+  }
+  return rank;
+}
+
+/**
+ * Scale a metric to 0-100 relative to the most central risk
+ * PageRank is never zero, so it is scaled between the least and most central risk
+ */
+function normalizeMetric(values: number[], fromMinimum: boolean): number[] {
+  const max = Math.max(0, ...values);
+  const min = fromMinimum && values.length > 0 ? Math.min(...values) : 0;
+  return values.map((v) => (max - min > 1e-12 ? ((v - min) / (max - min)) * 100 : 0));
+}
+
+/**
+ * Network metrics for every risk, with the chosen metric normalized as the centrality
+ */
+export function analyzeRiskNetwork(
+  risks: Risk[],
+  metric: CentralityMetric = "degree"
+): RiskNetworkMetrics[] {
+  const graph = buildRiskGraph(risks);
+
+  // Plain degree counts each risk's own relations plus the risks relating to it
+  const referencedBy = new Map<string, number>();
+  for (const risk of risks) {
+    for (const id of Array.from(new Set(risk.relatedRisks.map((r) => r.riskId)))) {
+      referencedBy.set(id, (referencedBy.get(id) ?? 0) + 1);
+    }
+  }
+  const degree = risks.map((risk) => risk.relatedRisks.length + (referencedBy.get(risk.id) ?? 0));
+  const weightedIn = graph.incoming.map((list) => list.reduce((sum, e) => sum + e.weight, 0));
+  const weightedOut = graph.outgoing.map((list) => list.reduce((sum, e) => sum + e.weight, 0));
+  const betweenness = betweennessCentrality(graph);
+  const ranks = pageRank(graph);
+
+  const dependencyTargets = graph.outgoing.map((list) => list.filter((e) => e.dependency).map((e) => e.target));
+  const componentSize = new Array<number>(risks.length).fill(1);
+  for (const component of stronglyConnectedComponents(dependencyTargets)) {
+    component.forEach((i) => (componentSize[i] = component.length));
+  }
+
+  const selected: Record<CentralityMetric, number[]> = {
+    degree,
+    weightedDegree: weightedIn.map((w, i) => w + weightedOut[i]),
+    betweenness,
+    pageRank: ranks,
+  };
+  const centrality = normalizeMetric(selected[metric], metric === "pageRank");
+
+  return risks.map((risk, i) => ({
+    riskId: risk.id,
+    degree: degree[i],
+    weightedInDegree: weightedIn[i],
+    weightedOutDegree: weightedOut[i],
+    betweenness: betweenness[i],
+    pageRank: ranks[i],
+    componentSize: componentSize[i],
+    centrality: centrality[i],
+  }));
+}
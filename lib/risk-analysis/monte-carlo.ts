@@ -3,51 +3,92 @@
  * Only enabled if user explicitly turns it on
  */
 
-import { Activity, Risk, MonteCarloOutput } from "./types";
-import { calculateDurationDays } from "./calculations";
+import {
+  Activity,
+  Risk,
+  MonteCarloOutput,
+  MonteCarloRiskSensitivity,
+  CorrelationEffect,
+  DistributionSummary,
+  HistogramBin,
+  CumulativePoint,
+  PercentileValues,
+} from "./types";
+import {
+  ScheduleNetwork,
+  buildScheduleNetwork,
+  calculateProjectDuration,
+} from "./schedule";
+import { RandomGenerator, createSeededRandom, generateSeed } from "./random";
+import {
+  defaultImpactDistribution,
+  sampleImpact,
+  sampleThreePointEstimate,
+} from "./distributions";
+import {
+  CorrelationModel,
+  buildCorrelationModel,
+  independentCorrelationModel,
+  sampleOccurrences,
+} from "./correlation";
 
-/**
- * Generate triangular distribution random value
- * min = 0.8 × mode, mode = actual%, max = 1.2 × mode
- */
-function triangularRandom(min: number, mode: number, max: number): number {
-  const u = Math.random();
-  const fc = (mode - min) / (max - min);
+// Iterations to run, or the cap when stopping on convergence, unless the caller sets one
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 10000;
+// Upper limit on iterations; per-risk samples take risks × iterations × 16 bytes
+export const MAX_MONTE_CARLO_ITERATIONS = 100000;
 
-  if (u < fc) {
-    return min + Math.sqrt(u * (max - min) * (mode - min));
-  } else {
-    return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
-  }
-}
+const HISTOGRAM_BINS = 30;
+const CDF_STEP = 5;
+// Convergence is checked every CONVERGENCE_CHECK_INTERVAL iterations once the minimum is reached,
+// so a seeded run stops at the same iteration however it is batched
+const MIN_CONVERGENCE_ITERATIONS = 1000;
+const CONVERGENCE_CHECK_INTERVAL = 1000;
 
 /**
  * Run single Monte Carlo iteration
+ * Activities with three-point estimates get a sampled duration and cost first;
+ * which risks fire is sampled from the correlation model;
+ * risk time impacts extend the (sampled) durations of affected activities and
+ * total duration is the critical path length through the schedule network
+ * Per-risk sampled impacts (0 when the risk did not fire) are returned for sensitivity analysis
  */
-function runIteration(risks: Risk[], activities: Activity[]): {
+function runIteration(
+  risks: Risk[],
+  activities: Activity[],
+  network: ScheduleNetwork,
+  model: CorrelationModel,
+  random: RandomGenerator
+): {
   totalCost: number;
   totalDuration: number;
+  riskOccurred: boolean[];
+  riskCostImpacts: number[];
+  riskTimeImpacts: number[];
 } {
   let totalCost = 0;
-  let totalDuration = 0;
 
-  // Calculate baseline totals (only Level 2 activities have costs and durations)
+  // Calculate baseline cost (only Level 2 activities have costs and durations)
   const level2Activities = activities.filter((a) => a.level === 2);
-  const baselineCost = level2Activities.reduce((sum, a) => sum + a.cost, 0);
-  const baselineDuration = level2Activities.reduce((sum, a) => {
-    if (a.start && a.end) {
-      const duration = a.durationDays ?? calculateDurationDays(a.start, a.end);
-      return sum + duration;
+  const durations = [...network.durations];
+
+  // Estimating uncertainty, independent of risk events
+  const costs = new Map<string, number>();
+  for (const a of level2Activities) {
+    costs.set(a.id, a.costEstimate ? sampleThreePointEstimate(a.costEstimate, random) : a.cost);
+    const index = network.indexById.get(a.id);
+    if (a.durationEstimate && index !== undefined) {
+      durations[index] = sampleThreePointEstimate(a.durationEstimate, random);
     }
-    return sum;
-  }, 0);
+  }
+  const baseDurations = [...durations];
+  const baselineCost = level2Activities.reduce((sum, a) => sum + costs.get(a.id)!, 0);
+  const riskOccurred = sampleOccurrences(model, risks, random);
+  const riskCostImpacts = new Array(risks.length).fill(0);
+  const riskTimeImpacts = new Array(risks.length).fill(0);
 
   // Simulate each risk
-  for (const risk of risks) {
-    // Bernoulli trigger: risk occurs with probability
-    const riskOccurs = Math.random() * 100 < risk.probability;
-
-    if (riskOccurs) {
+  risks.forEach((risk, r) => {
+    if (riskOccurred[r]) {
       // Get affected activities (only Level 2 activities have costs and durations)
       const affectedActivities = level2Activities.filter((a) =>
         risk.affectedActivities.includes(a.id)
@@ -55,39 +96,50 @@ function runIteration(risks: Risk[], activities: Activity[]): {
 
       if (affectedActivities.length > 0) {
         const affectedCost = affectedActivities.reduce(
-          (sum, a) => sum + a.cost,
+          (sum, a) => sum + costs.get(a.id)!,
           0
         );
-        const affectedDuration = affectedActivities.reduce((sum, a) => {
-          if (a.start && a.end) {
-            const duration = a.durationDays ?? calculateDurationDays(a.start, a.end);
-            return sum + duration;
-          }
-          return sum;
-        }, 0);
-
-        // Triangular distribution for impact percentages
-        const timeImpactMultiplier = triangularRandom(
-          risk.timeImpactPercent * 0.8,
-          risk.timeImpactPercent,
-          risk.timeImpactPercent * 1.2
-        ) / 100;
-
-        const costImpactMultiplier = triangularRandom(
-          risk.costImpactPercent * 0.8,
-          risk.costImpactPercent,
-          risk.costImpactPercent * 1.2
-        ) / 100;
+
+        // Impact percentages from the risk's distributions (default triangular ±20%)
+        // Opportunities sample negative impacts; a saving never exceeds the whole duration or cost
+        const timeImpactMultiplier = Math.max(
+          -1,
+          sampleImpact(
+            risk.timeImpactDistribution ?? defaultImpactDistribution(risk.timeImpactPercent),
+            random
+          ) / 100
+        );
+
+        const costImpactMultiplier = Math.max(
+          -1,
+          sampleImpact(
+            risk.costImpactDistribution ?? defaultImpactDistribution(risk.costImpactPercent),
+            random
+          ) / 100
+        );
 
         totalCost += affectedCost * costImpactMultiplier;
-        totalDuration += affectedDuration * timeImpactMultiplier;
+        riskCostImpacts[r] = affectedCost * costImpactMultiplier;
+
+        // Extend each affected activity in the network by its own share
+        for (const a of affectedActivities) {
+          const index = network.indexById.get(a.id);
+          if (index !== undefined) {
+            const addedDays = baseDurations[index] * timeImpactMultiplier;
+            durations[index] += addedDays;
+            riskTimeImpacts[r] += addedDays;
+          }
+        }
       }
     }
-  }
+  });
 
   return {
     totalCost: baselineCost + totalCost,
-    totalDuration: baselineDuration + totalDuration,
+    totalDuration: calculateProjectDuration(network, durations),
+    riskOccurred,
+    riskCostImpacts,
+    riskTimeImpacts,
   };
 }
 
@@ -115,72 +167,509 @@ function calculateStats(values: number[]): {
 }
 
 /**
- * Run Monte Carlo simulation
- * Iterations: 5k-10k (default 7500)
+ * Bin sorted values into equal-width bins between min and max
  */
-export function runMonteCarloSimulation(
+function buildHistogram(sortedValues: number[]): HistogramBin[] {
+  const min = sortedValues[0];
+  const max = sortedValues[sortedValues.length - 1];
+  if (min === max) {
+    return [{ start: min, end: max, count: sortedValues.length, frequency: 1 }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+    frequency: 0,
+  }));
+  for (const v of sortedValues) {
+    // The maximum falls in the last bin rather than opening a new one
+    bins[Math.min(Math.floor((v - min) / width), HISTOGRAM_BINS - 1)].count++;
+  }
+  for (const bin of bins) {
+    bin.frequency = bin.count / sortedValues.length;
+  }
+  return bins;
+}
+
+/**
+ * Cumulative distribution at every CDF_STEP percentile
+ */
+function buildCdf(sortedValues: number[]): CumulativePoint[] {
+  const points: CumulativePoint[] = [];
+  for (let p = 0; p <= 100; p += CDF_STEP) {
+    points.push({ percentile: p, value: percentile(sortedValues, p) });
+  }
+  return points;
+}
+
+/**
+ * Distribution-free standard error of a percentile from sorted values
+ * Half the spread between the order statistics at p ± one binomial standard deviation
+ */
+function percentileStandardError(sortedValues: number[], p: number): number {
+  const q = p / 100;
+  const spread = Math.sqrt((q * (1 - q)) / sortedValues.length) * 100;
+  return (percentile(sortedValues, p + spread) - percentile(sortedValues, p - spread)) / 2;
+}
+
+function summarizeDistribution(sortedValues: number[]): DistributionSummary {
+  const { mean, stdDev } = calculateStats(sortedValues);
+  const levels: (keyof PercentileValues)[] = ["p10", "p50", "p80", "p90"];
+  const percentiles = {} as PercentileValues;
+  const standardErrors = {} as PercentileValues;
+  for (const level of levels) {
+    const p = parseInt(level.slice(1), 10);
+    percentiles[level] = percentile(sortedValues, p);
+    standardErrors[level] = percentileStandardError(sortedValues, p);
+  }
+  return {
+    mean,
+    stdDev,
+    percentiles,
+    standardErrors,
+    histogram: buildHistogram(sortedValues),
+    cdf: buildCdf(sortedValues),
+  };
+}
+
+/**
+ * Ranks of values (1-based), ties share their average rank
+ */
+function rank(values: ArrayLike<number>): Float64Array {
+  const order = Array.from({ length: values.length }, (_, i) => i).sort(
+    (a, b) => values[a] - values[b]
+  );
+  const ranks = new Float64Array(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Pearson correlation; 0 when either series is constant
+ */
+function correlation(x: ArrayLike<number>, y: ArrayLike<number>): number {
+  const n = x.length;
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += x[i];
+    meanY += y[i];
+  }
+  meanX /= n;
+  meanY /= n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  return varianceX === 0 || varianceY === 0
+    ? 0
+    : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Spearman rank correlation of each risk's sampled impact against the totals
+ * Contribution to variance = ρ² / Σρ² (the share of rank variance each risk explains)
+ */
+function calculateRiskSensitivity(
+  risks: Risk[],
+  riskOccurrences: number[],
+  riskCostImpacts: Float64Array[],
+  riskTimeImpacts: Float64Array[],
+  costResults: number[],
+  durationResults: number[]
+): MonteCarloRiskSensitivity[] {
+  const completed = costResults.length;
+  const costRanks = rank(costResults);
+  const durationRanks = rank(durationResults);
+
+  // Sample arrays are sized for the target iterations; only the completed ones count
+  const sensitivity = risks.map((risk, r) => ({
+    riskId: risk.id,
+    title: risk.title,
+    occurrenceRate: riskOccurrences[r] / completed,
+    costCorrelation: correlation(rank(riskCostImpacts[r].subarray(0, completed)), costRanks),
+    durationCorrelation: correlation(rank(riskTimeImpacts[r].subarray(0, completed)), durationRanks),
+    costVarianceContribution: 0,
+    durationVarianceContribution: 0,
+  }));
+
+  const costTotal = sensitivity.reduce((sum, s) => sum + s.costCorrelation ** 2, 0);
+  const durationTotal = sensitivity.reduce((sum, s) => sum + s.durationCorrelation ** 2, 0);
+  for (const s of sensitivity) {
+    s.costVarianceContribution = costTotal > 0 ? (s.costCorrelation ** 2 / costTotal) * 100 : 0;
+    s.durationVarianceContribution =
+      durationTotal > 0 ? (s.durationCorrelation ** 2 / durationTotal) * 100 : 0;
+  }
+
+  return sensitivity.sort(
+    (a, b) =>
+      b.durationVarianceContribution - a.durationVarianceContribution ||
+      b.costVarianceContribution - a.costVarianceContribution
+  );
+}
+
+/**
+ * Value at a confidence level, interpolated linearly between CDF points
+ */
+export function valueAtConfidence(cdf: CumulativePoint[], confidence: number): number {
+  const p = Math.max(0, Math.min(100, confidence));
+  for (let i = 1; i < cdf.length; i++) {
+    if (p <= cdf[i].percentile) {
+      const lower = cdf[i - 1];
+      const upper = cdf[i];
+      const t = (p - lower.percentile) / (upper.percentile - lower.percentile);
+      return lower.value + t * (upper.value - lower.value);
+    }
+  }
+  return cdf[cdf.length - 1]?.value ?? 0;
+}
+
+/**
+ * Monte Carlo run that can be advanced in batches
+ * Samples are kept in iteration order so partial results can be summarized at any point
+ */
+export interface MonteCarloRun {
+  risks: Risk[];
+  activities: Activity[];
+  network: ScheduleNetwork;
+  model: CorrelationModel;
+  random: RandomGenerator;
+  seed: number;
+  iterations: number; // Target iteration count, or the cap when tolerance is set
+  tolerance?: number; // Stop once P50/P90 standard errors are within this % of their values
+  converged: boolean;
+  deadline?: number;
+  deadlineDate?: string; // Target finish date the deadline was converted from
+  budget?: number;
+  baselineCost: number;
+  baselineDuration: number;
+  costResults: number[];
+  durationResults: number[];
+  sortedCostResults: number[]; // First sortedCount results in ascending order, see sortedRunResults
+  sortedDurationResults: number[];
+  sortedCount: number;
+  riskOccurrences: number[];
+  riskCostImpacts: Float64Array[]; // Per risk, one sampled impact per iteration (0 when it did not fire)
+  riskTimeImpacts: Float64Array[];
+}
+
+function initRun(
   risks: Risk[],
   activities: Activity[],
-  iterations: number = 7500,
+  network: ScheduleNetwork,
+  model: CorrelationModel,
+  iterations: number,
+  seed: number
+): MonteCarloRun {
+  return {
+    risks,
+    activities,
+    network,
+    model,
+    random: createSeededRandom(seed),
+    seed,
+    iterations,
+    converged: false,
+    baselineCost: activities
+      .filter((a) => a.level === 2)
+      .reduce((sum, a) => sum + a.cost, 0),
+    baselineDuration: calculateProjectDuration(network),
+    costResults: [],
+    durationResults: [],
+    sortedCostResults: [],
+    sortedDurationResults: [],
+    sortedCount: 0,
+    riskOccurrences: new Array(risks.length).fill(0),
+    riskCostImpacts: risks.map(() => new Float64Array(iterations)),
+    riskTimeImpacts: risks.map(() => new Float64Array(iterations)),
+  };
+}
+
+/**
+ * Start a Monte Carlo run; advance it with stepMonteCarloRun
+ * Deadline is in days from the project start; budget is the total project budget
+ * With a tolerance the run stops early once cost and duration P50/P90 have converged
+ * Risk relations are honoured (see correlation.ts), so pass base, unpropagated probabilities
+ * Iterations are clamped to 1..MAX_MONTE_CARLO_ITERATIONS
+ */
+export function createMonteCarloRun(
+  risks: Risk[],
+  activities: Activity[],
+  iterations: number = DEFAULT_MONTE_CARLO_ITERATIONS,
   deadline?: number,
-  budget?: number
-): MonteCarloOutput {
-  const costResults: number[] = [];
-  const durationResults: number[] = [];
+  budget?: number,
+  seed?: number,
+  tolerance?: number
+): MonteCarloRun {
+  const run = initRun(
+    risks,
+    activities,
+    buildScheduleNetwork(activities),
+    buildCorrelationModel(risks),
+    Math.max(1, Math.min(MAX_MONTE_CARLO_ITERATIONS, Math.floor(iterations))),
+    seed ?? generateSeed()
+  );
+  run.deadline = deadline;
+  run.budget = budget;
+  run.tolerance = tolerance;
+  return run;
+}
+
+/**
+ * Merge two ascending arrays
+ */
+function mergeSorted(a: number[], b: number[]): number[] {
+  const merged = new Array<number>(a.length + b.length);
+  let i = 0;
+  let j = 0;
+  for (let k = 0; k < merged.length; k++) {
+    merged[k] = j >= b.length || (i < a.length && a[i] <= b[j]) ? a[i++] : b[j++];
+  }
+  return merged;
+}
+
+/**
+ * Cost and duration results so far in ascending order
+ * Only the samples added since the last call are sorted, then merged in, so convergence
+ * checks and summaries during a long run do not re-sort every sample
+ */
+function sortedRunResults(run: MonteCarloRun): { cost: number[]; duration: number[] } {
+  const completed = run.costResults.length;
+  if (run.sortedCount < completed) {
+    const ascending = (a: number, b: number) => a - b;
+    run.sortedCostResults = mergeSorted(
+      run.sortedCostResults,
+      run.costResults.slice(run.sortedCount).sort(ascending)
+    );
+    run.sortedDurationResults = mergeSorted(
+      run.sortedDurationResults,
+      run.durationResults.slice(run.sortedCount).sort(ascending)
+    );
+    run.sortedCount = completed;
+  }
+  return { cost: run.sortedCostResults, duration: run.sortedDurationResults };
+}
+
+/**
+ * True when cost and duration P50/P90 standard errors are all within the run's tolerance
+ */
+function hasConverged(run: MonteCarloRun, tolerance: number): boolean {
+  const { cost, duration } = sortedRunResults(run);
+  return [cost, duration].every((sorted) =>
+    [50, 90].every((p) => {
+      const value = Math.abs(percentile(sorted, p));
+      const standardError = percentileStandardError(sorted, p);
+      return value === 0 ? standardError === 0 : (standardError / value) * 100 <= tolerance;
+    })
+  );
+}
+
+/**
+ * Percentile of total cost over the iterations completed so far
+ * Cheaper than summarizeMonteCarloRun when only one figure is needed
+ */
+export function monteCarloCostPercentile(run: MonteCarloRun, p: number): number {
+  const { cost } = sortedRunResults(run);
+  return cost.length > 0 ? percentile(cost, p) : 0;
+}
+
+/**
+ * Whether the run has reached its target iterations or converged
+ */
+export function isMonteCarloRunComplete(run: MonteCarloRun): boolean {
+  return run.converged || run.costResults.length >= run.iterations;
+}
 
-  // Run iterations
-  for (let i = 0; i < iterations; i++) {
-    const { totalCost, totalDuration } = runIteration(risks, activities);
-    costResults.push(totalCost);
-    durationResults.push(totalDuration);
+/**
+ * Run up to batchSize more iterations (never past the target or convergence)
+ * Returns the number of completed iterations
+ */
+export function stepMonteCarloRun(run: MonteCarloRun, batchSize: number): number {
+  const end = Math.min(run.iterations, run.costResults.length + batchSize);
+  while (run.costResults.length < end && !run.converged) {
+    const iteration = runIteration(run.risks, run.activities, run.network, run.model, run.random);
+    const index = run.costResults.length;
+    run.costResults.push(iteration.totalCost);
+    run.durationResults.push(iteration.totalDuration);
+    run.risks.forEach((_, r) => {
+      if (iteration.riskOccurred[r]) run.riskOccurrences[r]++;
+      run.riskCostImpacts[r][index] = iteration.riskCostImpacts[r];
+      run.riskTimeImpacts[r][index] = iteration.riskTimeImpacts[r];
+    });
+
+    const completed = run.costResults.length;
+    if (
+      run.tolerance !== undefined &&
+      completed >= MIN_CONVERGENCE_ITERATIONS &&
+      completed % CONVERGENCE_CHECK_INTERVAL === 0
+    ) {
+      run.converged = hasConverged(run, run.tolerance);
+    }
   }
+  return run.costResults.length;
+}
 
-  // Sort for percentile calculation
-  costResults.sort((a, b) => a - b);
-  durationResults.sort((a, b) => a - b);
+/**
+ * Re-run with independent occurrences at the same marginal probabilities
+ * (each risk's observed occurrence rate), isolating how much correlation widens P90
+ */
+function compareWithIndependent(
+  run: MonteCarloRun,
+  correlated: { cost: DistributionSummary; duration: DistributionSummary }
+): CorrelationEffect {
+  const completed = run.costResults.length;
+  const marginalRisks = run.risks.map((risk, r) => ({
+    ...risk,
+    probability: (run.riskOccurrences[r] / completed) * 100,
+  }));
+  const independent = initRun(
+    marginalRisks,
+    run.activities,
+    run.network,
+    independentCorrelationModel(marginalRisks),
+    completed,
+    run.seed
+  );
+  stepMonteCarloRun(independent, completed);
+  const cost = summarizeDistribution(independent.costResults.sort((a, b) => a - b));
+  const duration = summarizeDistribution(independent.durationResults.sort((a, b) => a - b));
+
+  return {
+    dependencyLinks: run.model.dependencyLinks,
+    concurrentLinks: run.model.concurrentLinks,
+    matrixAdjusted: run.model.matrixAdjusted,
+    independentCostP90: cost.percentiles.p90,
+    independentDurationP90: duration.percentiles.p90,
+    independentCostStdDev: cost.stdDev,
+    independentDurationStdDev: duration.stdDev,
+    costP90Increase: correlated.cost.percentiles.p90 - cost.percentiles.p90,
+    durationP90Increase: correlated.duration.percentiles.p90 - duration.percentiles.p90,
+  };
+}
+
+/**
+ * Summarize the iterations completed so far
+ * Partial summaries carry only the distributions and threshold probabilities: risk sensitivity
+ * (a rank correlation per risk over every sample) and the independent-sampling comparison
+ * (which doubles the work) are left to the final summary
+ */
+export function summarizeMonteCarloRun(run: MonteCarloRun): MonteCarloOutput {
+  const completed = run.costResults.length;
+  const partial = !isMonteCarloRunComplete(run);
+  const convergence =
+    run.tolerance !== undefined
+      ? { tolerance: run.tolerance, maxIterations: run.iterations, converged: run.converged }
+      : undefined;
+  if (completed === 0) {
+    return { enabled: true, iterations: 0, seed: run.seed, partial, convergence };
+  }
+  const { deadline, budget, baselineCost, baselineDuration } = run;
+
+  // Sensitivity needs iteration order, so compute it before sorting
+  const riskSensitivity = partial
+    ? undefined
+    : calculateRiskSensitivity(
+        run.risks,
+        run.riskOccurrences,
+        run.riskCostImpacts,
+        run.riskTimeImpacts,
+        run.costResults,
+        run.durationResults
+      );
+
+  // Sorted for percentile calculation; the run's own results stay in iteration order
+  const { cost: costResults, duration: durationResults } = sortedRunResults(run);
 
   // Calculate statistics
-  const costStats = calculateStats(costResults);
-  const durationStats = calculateStats(durationResults);
+  const costDistribution = summarizeDistribution(costResults);
+  const durationDistribution = summarizeDistribution(durationResults);
 
   // Calculate probabilities
   let probabilityOverDeadline = 0;
   if (deadline !== undefined) {
     probabilityOverDeadline =
-      durationResults.filter((d) => d > deadline).length / iterations;
+      durationResults.filter((d) => d > deadline).length / completed;
   }
 
   let probabilityOverBudget = 0;
   if (budget !== undefined) {
     probabilityOverBudget =
-      costResults.filter((c) => c > budget).length / iterations;
+      costResults.filter((c) => c > budget).length / completed;
   }
 
+  const correlationEffect =
+    !partial && run.model.dependencyLinks + run.model.concurrentLinks > 0
+      ? compareWithIndependent(run, { cost: costDistribution, duration: durationDistribution })
+      : undefined;
+
+  const costPercentiles = costDistribution.percentiles;
+  const durationPercentiles = durationDistribution.percentiles;
+
   return {
     enabled: true,
-    iterations,
-    totalCostDistribution: {
-      mean: costStats.mean,
-      stdDev: costStats.stdDev,
-      percentiles: {
-        p10: percentile(costResults, 10),
-        p50: percentile(costResults, 50),
-        p90: percentile(costResults, 90),
-      },
+    iterations: completed,
+    seed: run.seed,
+    partial: partial || undefined,
+    convergence,
+    totalCostDistribution: costDistribution,
+    totalDurationDistribution: durationDistribution,
+    baselineCost,
+    baselineDuration,
+    costContingency: {
+      p50: Math.max(0, costPercentiles.p50 - baselineCost),
+      p80: Math.max(0, costPercentiles.p80 - baselineCost),
+      p90: Math.max(0, costPercentiles.p90 - baselineCost),
     },
-    totalDurationDistribution: {
-      mean: durationStats.mean,
-      stdDev: durationStats.stdDev,
-      percentiles: {
-        p10: percentile(durationResults, 10),
-        p50: percentile(durationResults, 50),
-        p90: percentile(durationResults, 90),
-      },
+    durationContingency: {
+      p50: Math.max(0, durationPercentiles.p50 - baselineDuration),
+      p80: Math.max(0, durationPercentiles.p80 - baselineDuration),
+      p90: Math.max(0, durationPercentiles.p90 - baselineDuration),
     },
+    deadlineDate: deadline !== undefined ? run.deadlineDate : undefined,
+    deadlineDays: deadline,
+    budget,
     probabilityOverDeadline:
       deadline !== undefined ? probabilityOverDeadline : undefined,
     probabilityOverBudget:
       budget !== undefined ? probabilityOverBudget : undefined,
+    riskSensitivity,
+    correlationEffect,
   };
 }
 
+/**
+ * Run Monte Carlo simulation
+ * Iterations: up to MAX_MONTE_CARLO_ITERATIONS (default DEFAULT_MONTE_CARLO_ITERATIONS); with a tolerance, the cap for convergence-based stopping
+ * Deadline is in days from the project start; budget is the total project budget
+ * Seed: same input + seed always produces identical distributions;
+ * a fresh seed is generated (and recorded in the output) when omitted
+ */
+export function runMonteCarloSimulation(
+  risks: Risk[],
+  activities: Activity[],
+  iterations: number = DEFAULT_MONTE_CARLO_ITERATIONS,
+  deadline?: number,
+  budget?: number,
+  seed?: number,
+  tolerance?: number
+): MonteCarloOutput {
+  const run = createMonteCarloRun(risks, activities, iterations, deadline, budget, seed, tolerance);
+  stepMonteCarloRun(run, iterations);
+  return summarizeMonteCarloRun(run);
+}
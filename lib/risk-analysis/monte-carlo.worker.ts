@@ -0,0 +1,79 @@
+/**
+ * Web Worker that runs Monte Carlo simulations off the main thread
+ * simulate: posts progress after every batch, with a partial summary at most every PARTIAL_INTERVAL_MS
+ * portfolioP80: simulates each mitigation portfolio in turn and posts progress across all of them
+ * The page cancels a run by terminating the worker
+ */
+
+import {
+  MonteCarloSimulationRequest,
+  MonteCarloWorkerMessage,
+  MonteCarloWorkerRequest,
+  PortfolioP80Request,
+} from "./types";
+import { createMonteCarloRunForInput } from "./analyzer";
+import { createPortfolioRun } from "./portfolio";
+import {
+  isMonteCarloRunComplete,
+  monteCarloCostPercentile,
+  stepMonteCarloRun,
+  summarizeMonteCarloRun,
+} from "./monte-carlo";
+
+const BATCH_SIZE = 250;
+const PARTIAL_INTERVAL_MS = 300;
+
+const ctx = self as unknown as Worker;
+
+function post(message: MonteCarloWorkerMessage) {
+  ctx.postMessage(message);
+}
+
+function simulate({ input, iterations, deadline, budget, seed, tolerance }: MonteCarloSimulationRequest) {
+  const run = createMonteCarloRunForInput(input, iterations, deadline, budget, seed, tolerance);
+  let lastPartial = Date.now();
+
+  stepMonteCarloRun(run, BATCH_SIZE);
+  while (!isMonteCarloRunComplete(run)) {
+    // The interval runs from the end of the last summary, so slow summaries cannot crowd out batches
+    const partial =
+      Date.now() - lastPartial >= PARTIAL_INTERVAL_MS ? summarizeMonteCarloRun(run) : undefined;
+    if (partial) lastPartial = Date.now();
+    post({
+      type: "progress",
+      completed: run.costResults.length,
+      total: run.iterations,
+      partial,
+    });
+    stepMonteCarloRun(run, BATCH_SIZE);
+  }
+
+  post({ type: "done", result: summarizeMonteCarloRun(run) });
+}
+
+function evaluatePortfolios({ input, portfolios, iterations, seed }: PortfolioP80Request) {
+  const total = portfolios.length * iterations;
+  const p80Costs = portfolios.map((selections, i) => {
+    const run = createPortfolioRun(input, selections, iterations, seed);
+    while (!isMonteCarloRunComplete(run)) {
+      stepMonteCarloRun(run, BATCH_SIZE);
+      post({ type: "progress", completed: i * iterations + run.costResults.length, total });
+    }
+    return monteCarloCostPercentile(run, 80);
+  });
+
+  post({ type: "portfolioDone", p80Costs });
+}
+
+ctx.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === "portfolioP80") {
+      evaluatePortfolios(request);
+    } else {
+      simulate(request);
+    }
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Simulation failed" });
+  }
+};
@@ -0,0 +1,213 @@
+/**
+ * Microsoft Project XML (MSPDI) importer
+ * Summary tasks become Level 1 artifacts, leaf tasks become Level 2 activities
+ * Requires DOMParser (browser)
+ */
+
+import { DependencyType, ImportIssue, ScheduleImportResult } from "./types";
+import {
+  ImportedGroup,
+  ImportedTask,
+  buildImportedActivities,
+  toIsoDate,
+} from "./schedule-import";
+
+// MSPDI PredecessorLink/Type codes
+const LINK_TYPES: Record<string, DependencyType> = {
+  "0": "FF",
+  "1": "FS",
+  "2": "SF",
+  "3": "SS",
+};
+
+// LagFormat codes for elapsed durations (counted in 24-hour days)
+const ELAPSED_LAG_FORMATS = ["4", "6", "8", "10", "12"];
+// LagFormat codes for percentage lags, which have no fixed length
+const PERCENT_LAG_FORMATS = ["19", "20"];
+
+const WORKING_MINUTES_PER_DAY = 8 * 60;
+const ELAPSED_MINUTES_PER_DAY = 24 * 60;
+
+interface MspdiTask {
+  uid: string;
+  name: string;
+  outlineNumber: string;
+  outlineLevel: number;
+  summary: boolean;
+  isNull: boolean;
+  start: string;
+  finish: string;
+  cost: number;
+  links: { predecessorUid: string; type: string; lag: number; lagFormat: string }[];
+}
+
+function childText(element: Element, tagName: string): string {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === tagName) return child.textContent?.trim() ?? "";
+  }
+  return "";
+}
+
+function readTask(element: Element): MspdiTask {
+  const links = Array.from(element.children)
+    .filter((c) => c.localName === "PredecessorLink")
+    .map((link) => ({
+      predecessorUid: childText(link, "PredecessorUID"),
+      type: childText(link, "Type") || "1",
+      lag: parseFloat(childText(link, "LinkLag")) || 0,
+      lagFormat: childText(link, "LagFormat") || "7",
+    }));
+
+  return {
+    uid: childText(element, "UID"),
+    name: childText(element, "Name"),
+    outlineNumber: childText(element, "OutlineNumber"),
+    outlineLevel: parseInt(childText(element, "OutlineLevel"), 10) || 0,
+    summary: childText(element, "Summary") === "1",
+    isNull: childText(element, "IsNull") === "1",
+    start: toIsoDate(childText(element, "Start")),
+    finish: toIsoDate(childText(element, "Finish")),
+    // MSPDI stores currency in hundredths of the currency unit
+    cost: (parseFloat(childText(element, "Cost")) || 0) / 100,
+    links,
+  };
+}
+
+/**
+ * Convert a LinkLag (tenths of a minute) to days
+ */
+function lagToDays(lag: number, lagFormat: string): number {
+  const minutes = lag / 10;
+  const minutesPerDay = ELAPSED_LAG_FORMATS.includes(lagFormat)
+    ? ELAPSED_MINUTES_PER_DAY
+    : WORKING_MINUTES_PER_DAY;
+  return Math.round((minutes / minutesPerDay) * 100) / 100;
+}
+
+/**
+ * Parse an MSPDI document into wizard activities
+ * Throws if the document is not MS Project XML
+ */
+export function parseMspdi(xml: string): ScheduleImportResult {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not well-formed XML");
+  }
+  if (doc.documentElement.localName !== "Project") {
+    throw new Error("File is not a Microsoft Project XML (MSPDI) document");
+  }
+
+  const skipped: ImportIssue[] = [];
+  const warnings: string[] = [];
+
+  const tasks = Array.from(doc.getElementsByTagName("Task"))
+    .map(readTask)
+    .filter((t) => {
+      if (t.isNull) {
+        skipped.push({ sourceId: t.uid, name: "(blank row)", reason: "Null task" });
+        return false;
+      }
+      // Outline level 0 is the project summary task
+      return t.outlineLevel > 0;
+    });
+
+  const byOutlineNumber = new Map(tasks.map((t) => [t.outlineNumber, t]));
+
+  // Nearest summary ancestor of a task, by outline number (1.2.3 -> 1.2 -> 1)
+  const findParentSummary = (task: MspdiTask): MspdiTask | undefined => {
+    let outline = task.outlineNumber;
+    while (outline.includes(".")) {
+      outline = outline.substring(0, outline.lastIndexOf("."));
+      const parent = byOutlineNumber.get(outline);
+      if (parent?.summary) return parent;
+    }
+    return undefined;
+  };
+
+  const groups: ImportedGroup[] = [];
+  const groupByUid = new Map<string, ImportedGroup>();
+  const ungrouped: ImportedGroup = {
+    sourceId: "",
+    title: "Ungrouped Tasks",
+    tasks: [],
+  };
+
+  for (const task of tasks) {
+    if (task.summary) {
+      const group: ImportedGroup = { sourceId: task.uid, title: task.name, tasks: [] };
+      groups.push(group);
+      groupByUid.set(task.uid, group);
+    }
+  }
+
+  // Links into summary tasks cannot be represented (summaries are artifacts)
+  const summaryUids = new Set(tasks.filter((t) => t.summary).map((t) => t.uid));
+  for (const task of tasks) {
+    for (const link of task.links) {
+      if (summaryUids.has(task.uid) || summaryUids.has(link.predecessorUid)) {
+        skipped.push({
+          sourceId: `${link.predecessorUid}->${task.uid}`,
+          name: task.name,
+          reason: "Logic link on a summary task",
+        });
+      }
+    }
+  }
+
+  for (const task of tasks.filter((t) => !t.summary)) {
+    if (!task.start || !task.finish) {
+      skipped.push({ sourceId: task.uid, name: task.name, reason: "Missing start or finish date" });
+      continue;
+    }
+
+    const predecessors = task.links
+      .filter((link) => !summaryUids.has(link.predecessorUid))
+      .map((link) => {
+        const percentLag = PERCENT_LAG_FORMATS.includes(link.lagFormat);
+        if (percentLag) {
+          warnings.push(`Percentage lag on link into "${task.name}" imported as 0 days`);
+        }
+        return {
+          sourceId: link.predecessorUid,
+          type: LINK_TYPES[link.type] ?? "FS",
+          lagDays: percentLag ? 0 : lagToDays(link.lag, link.lagFormat),
+        };
+      });
+
+    const imported: ImportedTask = {
+      sourceId: task.uid,
+      title: task.name,
+      start: task.start,
+      end: task.finish,
+      cost: task.cost,
+      predecessors,
+    };
+
+    const parent = findParentSummary(task);
+    const group = parent ? groupByUid.get(parent.uid) : undefined;
+    if (group) {
+      group.tasks.push(imported);
+    } else {
+      ungrouped.tasks.push(imported);
+    }
+  }
+
+  for (const group of groups) {
+    if (group.tasks.length === 0) {
+      skipped.push({
+        sourceId: group.sourceId,
+        name: group.title,
+        reason: "Summary task has no leaf tasks directly beneath it",
+      });
+    }
+  }
+
+  if (ungrouped.tasks.length > 0) {
+    warnings.push(
+      `${ungrouped.tasks.length} task(s) without a summary task were placed under "${ungrouped.title}"`
+    );
+    groups.push(ungrouped);
+  }
+
+  return buildImportedActivities(groups, skipped, warnings);
+}
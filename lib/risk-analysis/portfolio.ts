@@ -0,0 +1,251 @@
+/**
+ * Mitigation portfolio optimisation under a fixed budget
+ * Each risk takes at most one of its mitigation options (a multiple-choice knapsack);
+ * the exact efficient frontier is built risk by risk, pruning dominated portfolios
+ */
+
+import {
+  Input,
+  AnalysisOutput,
+  Risk,
+  Recommendation,
+  PortfolioOptions,
+  PortfolioP80Plan,
+  PortfolioPoint,
+  PortfolioResult,
+  PortfolioSelection,
+} from "./types";
+import { createMonteCarloRunForInput } from "./analyzer";
+import { MonteCarloRun, monteCarloCostPercentile, stepMonteCarloRun } from "./monte-carlo";
+import { scaleImpactDistribution } from "./distributions";
+import { generateSeed } from "./random";
+
+const DEFAULT_P80_ITERATIONS = 2000;
+const MAX_P80_PORTFOLIOS = 20;
+const EPSILON = 1e-9;
+
+/**
+ * Average planned spend per day: Level 2 cost over the critical path length
+ */
+export function defaultCostPerDay(input: Input, analysis: AnalysisOutput): number {
+  const plannedCost = input.activities
+    .filter((a) => a.level === 2)
+    .reduce((sum, a) => sum + a.cost, 0);
+  const duration = analysis.schedule.projectDuration;
+  return duration > 0 ? plannedCost / duration : 0;
+}
+
+/**
+ * Portfolio extended with one more mitigation
+ */
+function addOption(point: PortfolioPoint, rec: Recommendation, costPerDay: number): PortfolioPoint {
+  const costReduction = rec.preMitigation!.expectedCostImpact - rec.postMitigation!.expectedCostImpact;
+  const timeReduction = rec.preMitigation!.expectedTimeImpact - rec.postMitigation!.expectedTimeImpact;
+  return {
+    cost: point.cost + (rec.mitigationCost ?? 0),
+    expectedCostReduction: point.expectedCostReduction + costReduction,
+    expectedTimeReduction: point.expectedTimeReduction + timeReduction,
+    benefit: point.benefit + costReduction + costPerDay * timeReduction,
+    selections: [...point.selections, { riskId: rec.riskId!, mitigationId: rec.mitigationId! }],
+  };
+}
+
+/**
+ * Keep portfolios that no cheaper (or equally cheap) portfolio matches in benefit
+ */
+function pruneDominated(points: PortfolioPoint[]): PortfolioPoint[] {
+  const sorted = [...points].sort((a, b) => a.cost - b.cost || b.benefit - a.benefit);
+  const kept: PortfolioPoint[] = [];
+  let bestBenefit = -Infinity;
+  for (const point of sorted) {
+    if (point.benefit > bestBenefit + EPSILON) {
+      kept.push(point);
+      bestBenefit = point.benefit;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Efficient frontier over per-risk option groups
+ * Formula: frontier_k = prune(frontier_{k-1} ∪ { p + option : p ∈ frontier_{k-1}, option ∈ group_k })
+ */
+function efficientFrontier(groups: Recommendation[][], costPerDay: number): PortfolioPoint[] {
+  let frontier: PortfolioPoint[] = [
+    { cost: 0, expectedCostReduction: 0, expectedTimeReduction: 0, benefit: 0, selections: [] },
+  ];
+  for (const options of groups) {
+    const candidates = [...frontier];
+    for (const point of frontier) {
+      for (const rec of options) {
+        candidates.push(addOption(point, rec, costPerDay));
+      }
+    }
+    frontier = pruneDominated(candidates);
+  }
+  return frontier;
+}
+
+/**
+ * Replace each selected risk's probability and impacts with the mitigation's residual values
+ * The applied option is recorded in the response plan and removed from the risk's options
+ */
+export function applyMitigations(risks: Risk[], selections: PortfolioSelection[]): Risk[] {
+  return risks.map((risk) => {
+    const selection = selections.find((s) => s.riskId === risk.id);
+    const mitigation = selection && risk.mitigations?.find((m) => m.id === selection.mitigationId);
+    if (!mitigation) return risk;
+
+    const note = `Mitigation ${mitigation.id}: ${mitigation.description}${
+      mitigation.owner ? ` (owner: ${mitigation.owner})` : ""
+    }`;
+
+    return {
+      ...risk,
+      probability: mitigation.residualProbability,
+      timeImpactPercent: mitigation.residualTimeImpactPercent,
+      costImpactPercent: mitigation.residualCostImpactPercent,
+      timeImpactDistribution: scaleImpactDistribution(
+        risk.timeImpactDistribution,
+        risk.timeImpactPercent,
+        mitigation.residualTimeImpactPercent
+      ),
+      costImpactDistribution: scaleImpactDistribution(
+        risk.costImpactDistribution,
+        risk.costImpactPercent,
+        mitigation.residualCostImpactPercent
+      ),
+      responsePlan: risk.responsePlan.trim() ? `${risk.responsePlan}\n${note}` : note,
+      mitigations: risk.mitigations!.filter((m) => m.id !== mitigation.id),
+    };
+  });
+}
+
+/**
+ * Frontier over the analysis's mitigation options and its portfolios within the budget
+ * The cheapest frontier portfolio costs 0 (nothing, or only free options), so one is always affordable
+ */
+function buildFrontier(
+  input: Input,
+  analysis: AnalysisOutput,
+  options: PortfolioOptions
+): { costPerDay: number; frontier: PortfolioPoint[]; affordable: PortfolioPoint[] } {
+  const costPerDay = options.costPerDay ?? defaultCostPerDay(input, analysis);
+
+  const groups = analysis.perRiskAnalysis
+    .map((a) => a.recommendations.filter((r) => r.mitigationId && r.preMitigation && r.postMitigation))
+    .filter((group) => group.length > 0);
+  const frontier = efficientFrontier(groups, costPerDay);
+
+  return { costPerDay, frontier, affordable: frontier.filter((p) => p.cost <= options.budget + EPSILON) };
+}
+
+/**
+ * Portfolios to simulate for the p80Cost objective
+ * Only the MAX_P80_PORTFOLIOS affordable frontier portfolios with the most benefit are
+ * simulated, so the work stays bounded however many options the register has
+ */
+export function planP80Portfolio(
+  input: Input,
+  analysis: AnalysisOutput,
+  options: PortfolioOptions
+): PortfolioP80Plan {
+  const { costPerDay, frontier, affordable } = buildFrontier(input, analysis, options);
+  return {
+    options,
+    costPerDay,
+    frontier,
+    candidates: affordable.slice(-MAX_P80_PORTFOLIOS),
+    iterations: options.iterations ?? DEFAULT_P80_ITERATIONS,
+    seed: options.seed ?? generateSeed(),
+  };
+}
+
+/**
+ * Monte Carlo run for the input with a set of mitigations applied, for P80 comparison
+ * (the worker advances it in batches; see monte-carlo.worker.ts)
+ */
+export function createPortfolioRun(
+  input: Input,
+  selections: PortfolioSelection[],
+  iterations: number,
+  seed: number
+): MonteCarloRun {
+  return createMonteCarloRunForInput(
+    { activities: input.activities, risks: applyMitigations(input.risks, selections) },
+    iterations,
+    undefined,
+    undefined,
+    seed
+  );
+}
+
+/**
+ * Pick the simulated candidate with the lowest P80 total cost
+ * p80Costs are in plan.candidates order; ties go to the cheaper portfolio
+ * Funding nothing is the starting point, so a plan with no candidates (or none that
+ * lowers the baseline P80) selects no mitigations
+ */
+export function choosePortfolioByP80(
+  plan: PortfolioP80Plan,
+  p80Costs: number[],
+  baselineP80Cost: number
+): PortfolioResult {
+  const baseline: PortfolioPoint & { p80Cost: number } = {
+    cost: 0,
+    expectedCostReduction: 0,
+    expectedTimeReduction: 0,
+    benefit: 0,
+    selections: [],
+    p80Cost: baselineP80Cost,
+  };
+  const evaluated = plan.candidates.map((point, i) => ({ ...point, p80Cost: p80Costs[i] }));
+  const best = evaluated.reduce((a, b) => (b.p80Cost < a.p80Cost - EPSILON ? b : a), baseline);
+
+  return {
+    budget: plan.options.budget,
+    objective: plan.options.objective,
+    costPerDay: plan.costPerDay,
+    frontier: plan.frontier,
+    best,
+    baselineP80Cost,
+    seed: plan.seed,
+  };
+}
+
+/**
+ * Choose the mitigations to fund within the budget
+ * expectedImpact: the affordable frontier portfolio with the largest benefit
+ * p80Cost: the planned candidates are simulated with the same seed and the one with the
+ *   lowest P80 total cost wins (frontier candidates only, so this is a heuristic)
+ * The p80Cost simulations run here on the calling thread; the page runs them in the
+ * Monte Carlo worker instead and only falls back to this where Workers are unavailable
+ */
+export function optimizeMitigationPortfolio(
+  input: Input,
+  analysis: AnalysisOutput,
+  options: PortfolioOptions
+): PortfolioResult {
+  if (options.objective === "p80Cost") {
+    const plan = planP80Portfolio(input, analysis, options);
+    const simulateP80 = (selections: PortfolioSelection[]) => {
+      const run = createPortfolioRun(input, selections, plan.iterations, plan.seed);
+      stepMonteCarloRun(run, plan.iterations);
+      return monteCarloCostPercentile(run, 80);
+    };
+    return choosePortfolioByP80(
+      plan,
+      plan.candidates.map((point) => simulateP80(point.selections)),
+      simulateP80([])
+    );
+  }
+
+  const { costPerDay, frontier, affordable } = buildFrontier(input, analysis, options);
+  return {
+    budget: options.budget,
+    objective: options.objective,
+    costPerDay,
+    frontier,
+    best: affordable[affordable.length - 1],
+  };
+}
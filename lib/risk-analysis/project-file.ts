@@ -0,0 +1,342 @@
+/**
+ * Save and reload risk analysis projects as versioned JSON files
+ * Older files are migrated step by step to the current schema version
+ */
+
+import {
+  Activity,
+  Input,
+  AnalysisOutput,
+  ProjectFile,
+  ProjectSettings,
+  QualitativeScales,
+  Risk,
+  ScaleBand,
+  ScenarioDefinition,
+  ScoringProfile,
+} from "./types";
+import {
+  ValidationError,
+  validatePredecessors,
+  validateQualitativeScales,
+  validateRisk,
+} from "./validation";
+import { DEFAULT_MONTE_CARLO_ITERATIONS, MAX_MONTE_CARLO_ITERATIONS } from "./monte-carlo";
+import { COMBINATION_RULES } from "./scenarios";
+
+export const PROJECT_FILE_FORMAT = "projetools-risk-analysis";
+export const PROJECT_FILE_VERSION = 2;
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  monteCarlo: {
+    enabled: false,
+    iterations: DEFAULT_MONTE_CARLO_ITERATIONS,
+    stopOnConvergence: true,
+    tolerance: 0.5,
+  },
+};
+
+// Parsed JSON object whose shape has not been checked yet
+type FileData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is FileData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isActivity(value: unknown): value is Activity {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.title === "string" &&
+    (value.level === 1 || value.level === 2) &&
+    typeof value.start === "string" &&
+    typeof value.end === "string" &&
+    isNumber(value.cost) &&
+    (value.predecessors === undefined ||
+      (Array.isArray(value.predecessors) &&
+        value.predecessors.every((p) => isRecord(p) && typeof p.activityId === "string")))
+  );
+}
+
+function isRisk(value: unknown): value is Risk {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.title === "string" &&
+    isNumber(value.probability) &&
+    isNumber(value.timeImpactPercent) &&
+    isNumber(value.costImpactPercent) &&
+    isStringArray(value.affectedActivities) &&
+    Array.isArray(value.relatedRisks) &&
+    value.relatedRisks.every((r) => isRecord(r) && typeof r.riskId === "string") &&
+    (value.mitigations === undefined || Array.isArray(value.mitigations))
+  );
+}
+
+function isScoringProfile(value: unknown): value is ScoringProfile {
+  return isRecord(value) && typeof value.name === "string" && isRecord(value.weights);
+}
+
+function isScaleBands(value: unknown): value is ScaleBand[] {
+  return (
+    Array.isArray(value) &&
+    value.every((b) => isRecord(b) && typeof b.label === "string" && isNumber(b.max) && isNumber(b.value))
+  );
+}
+
+function isQualitativeScales(value: unknown): value is QualitativeScales {
+  return isRecord(value) && isScaleBands(value.probability) && isScaleBands(value.impact);
+}
+
+function isScenario(value: unknown): value is ScenarioDefinition {
+  return (
+    isRecord(value) &&
+    typeof value.name === "string" &&
+    isStringArray(value.riskIds) &&
+    COMBINATION_RULES.some((r) => r.id === value.rule)
+  );
+}
+
+function isDistribution(value: unknown): boolean {
+  return isRecord(value) && Array.isArray(value.histogram) && Array.isArray(value.cdf);
+}
+
+/**
+ * Whether saved Monte Carlo results (if any) include the data the distribution charts plot
+ */
+function hasChartData(monteCarlo: unknown): boolean {
+  if (!isRecord(monteCarlo)) return monteCarlo === undefined;
+  return [monteCarlo.totalCostDistribution, monteCarlo.totalDurationDistribution].every(
+    (d) => d === undefined || isDistribution(d)
+  );
+}
+
+/**
+ * Saved results in the shape the results step reads; anything else is discarded
+ */
+function isAnalysisOutput(value: unknown): value is AnalysisOutput {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.perRiskAnalysis) &&
+    Array.isArray(value.combinedScenarios) &&
+    Array.isArray(value.propagationResults) &&
+    Array.isArray(value.topRisksByBehaviorScore) &&
+    Array.isArray(value.topRisksByExpectedImpact) &&
+    isRecord(value.schedule) &&
+    hasChartData(value.monteCarlo)
+  );
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * Each step returns data in the next version's shape
+ */
+const MIGRATIONS: Record<number, (data: FileData) => FileData> = {
+  // Version 0: a bare Input object ({ activities, risks }) with no wrapper
+  0: (data) => ({
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: 1,
+    savedAt: new Date().toISOString(),
+    input: { activities: data.activities, risks: data.risks },
+    settings: DEFAULT_PROJECT_SETTINGS,
+  }),
+  // Version 1: Monte Carlo always ran a fixed iteration count, and files saved before
+  // the distribution charts have Monte Carlo results without histogram or CDF data
+  1: (data) => {
+    const settings = isRecord(data.settings) ? data.settings : {};
+    const monteCarlo = isRecord(settings.monteCarlo) ? settings.monteCarlo : {};
+    const results = isRecord(data.results) ? data.results : undefined;
+    return {
+      ...data,
+      schemaVersion: 2,
+      settings: { ...settings, monteCarlo: { stopOnConvergence: false, ...monteCarlo } },
+      results:
+        results && !hasChartData(results.monteCarlo) ? { ...results, monteCarlo: undefined } : results,
+    };
+  },
+};
+
+/**
+ * Create a project file for the current wizard state
+ */
+export function createProjectFile(
+  input: Input,
+  settings: ProjectSettings,
+  results?: AnalysisOutput,
+  name?: string
+): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    name,
+    input,
+    settings,
+    results,
+  };
+}
+
+/**
+ * Detect the schema version of parsed file data
+ * Throws if the data is not a project file in any known version
+ */
+function detectVersion(data: unknown): number {
+  if (isRecord(data)) {
+    if (data.format === PROJECT_FILE_FORMAT && typeof data.schemaVersion === "number") {
+      return data.schemaVersion;
+    }
+    if (Array.isArray(data.activities) && Array.isArray(data.risks)) {
+      return 0;
+    }
+    if (Array.isArray(data.perRiskAnalysis)) {
+      throw new Error(
+        "This file is a results export and does not contain activities or risks, so it cannot be reopened"
+      );
+    }
+  }
+  throw new Error("File is not a risk analysis project");
+}
+
+/**
+ * Check the activities and risks of a migrated file
+ * Throws on malformed entries or risks with invalid values; problems the user
+ * fixes in the wizard (see inputErrors) do not stop the file from opening
+ */
+function readInput(value: unknown): Input {
+  if (!isRecord(value) || !Array.isArray(value.activities) || !Array.isArray(value.risks)) {
+    throw new Error("Project file is missing activities or risks");
+  }
+  const { activities, risks } = value;
+
+  const badActivity = activities.findIndex((a) => !isActivity(a));
+  if (badActivity !== -1) {
+    throw new Error(`Project file has a malformed activity at position ${badActivity + 1}`);
+  }
+  const badRisk = risks.findIndex((r) => !isRisk(r));
+  if (badRisk !== -1) {
+    throw new Error(`Project file has a malformed risk at position ${badRisk + 1}`);
+  }
+
+  const input: Input = { activities: activities as Activity[], risks: risks as Risk[] };
+  const activityIds = input.activities.map((a) => a.id);
+  for (const risk of input.risks) {
+    const error = validateRisk(risk, activityIds).find((e) => e.field !== "affectedActivities");
+    if (error) {
+      throw new Error(`Risk ${risk.id}: ${error.message}`);
+    }
+  }
+  return input;
+}
+
+/**
+ * Problems the wizard lets the user fix: invalid or cyclic logic links and
+ * risk assignments to activities that no longer exist
+ */
+function inputErrors(input: Input): ValidationError[] {
+  const activityIds = input.activities.map((a) => a.id);
+  return [
+    ...validatePredecessors(input.activities),
+    ...input.risks.flatMap((r) => validateRisk(r, activityIds)),
+  ];
+}
+
+/**
+ * Saved settings over the defaults; values of the wrong type fall back to the default
+ */
+function readSettings(value: unknown): ProjectSettings {
+  const settings = isRecord(value) ? value : {};
+  const monteCarlo = isRecord(settings.monteCarlo) ? settings.monteCarlo : {};
+  const defaults = DEFAULT_PROJECT_SETTINGS.monteCarlo;
+  const scales = settings.qualitativeScales;
+
+  return {
+    monteCarlo: {
+      enabled: typeof monteCarlo.enabled === "boolean" ? monteCarlo.enabled : defaults.enabled,
+      iterations:
+        isNumber(monteCarlo.iterations) && monteCarlo.iterations >= 1
+          ? Math.min(MAX_MONTE_CARLO_ITERATIONS, Math.floor(monteCarlo.iterations))
+          : defaults.iterations,
+      seed: isNumber(monteCarlo.seed) ? monteCarlo.seed : undefined,
+      stopOnConvergence:
+        typeof monteCarlo.stopOnConvergence === "boolean"
+          ? monteCarlo.stopOnConvergence
+          : defaults.stopOnConvergence,
+      tolerance:
+        isNumber(monteCarlo.tolerance) && monteCarlo.tolerance > 0 ? monteCarlo.tolerance : defaults.tolerance,
+    },
+    deadline: typeof settings.deadline === "string" ? settings.deadline : undefined,
+    budget: isNumber(settings.budget) ? settings.budget : undefined,
+    scoringProfile: isScoringProfile(settings.scoringProfile) ? settings.scoringProfile : undefined,
+    qualitativeScales:
+      isQualitativeScales(scales) && validateQualitativeScales(scales).length === 0 ? scales : undefined,
+    scenarios: Array.isArray(settings.scenarios) ? settings.scenarios.filter(isScenario) : undefined,
+  };
+}
+
+/**
+ * Upgrade parsed file data to the current schema version and check its contents
+ * Saved results are dropped when they are malformed or the input has problems
+ * the user has to fix first, so the wizard then opens on the activities step
+ */
+export function migrateProjectFile(data: unknown): ProjectFile {
+  let version = detectVersion(data);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `Project file version ${version} is newer than this tool supports (version ${PROJECT_FILE_VERSION})`
+    );
+  }
+
+  // detectVersion only accepts objects, so the fallback is never used
+  let current: FileData = isRecord(data) ? data : {};
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from project file version ${version}`);
+    }
+    current = migrate(current);
+    version = detectVersion(current);
+  }
+
+  const input = readInput(current.input);
+  const results =
+    isAnalysisOutput(current.results) && inputErrors(input).length === 0 ? current.results : undefined;
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: PROJECT_FILE_VERSION,
+    savedAt: typeof current.savedAt === "string" ? current.savedAt : new Date().toISOString(),
+    name: typeof current.name === "string" ? current.name : undefined,
+    input,
+    settings: readSettings(current.settings),
+    results,
+  };
+}
+
+/**
+ * Serialize a project file to JSON
+ */
+export function serializeProjectFile(file: ProjectFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and migrate a project file from JSON text
+ * Throws with a user-facing message if the file cannot be opened
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  return migrateProjectFile(data);
+}
@@ -0,0 +1,203 @@
+/**
+ * Probability propagation through risk relationships
+ * Same semantics as the Monte Carlo occurrence model (correlation.ts):
+ * - dependency A → B raises B's probability by noisy-OR:
+ *   P'_B = 1 − (1 − P_B) · Π over sources A (1 − strength_AB · P'_A)
+ * - concurrent A ↔ B couples when the risks occur together but leaves each probability unchanged
+ * Relation direction follows relatedRisks: A.relatedRisks contains { riskId: B }
+ */
+
+import {
+  PropagationInput,
+  PropagationPath,
+  PropagationResult,
+  PropagationSummary,
+  Risk,
+  DEFAULT_RELATION_STRENGTH,
+} from "./types";
+import { stronglyConnectedComponents } from "./graph";
+
+// Cycles are iterated until no probability moves by more than this (as a fraction)
+const PROPAGATION_TOLERANCE = 1e-9;
+const MAX_PROPAGATION_ITERATIONS = 1000;
+// Contributing paths: longest chain followed, weakest contribution kept (%), paths kept per risk
+// and the most chain extensions tried per risk
+const MAX_PATH_LENGTH = 6;
+const MIN_PATH_CONTRIBUTION = 0.1;
+const MAX_PATHS_PER_RISK = 10;
+const MAX_PATH_EXTENSIONS = 5000;
+
+interface DependencyLink {
+  index: number; // Source risk index
+  strength: number;
+}
+
+/**
+ * Dependency sources per risk, ignoring unknown IDs and self-links
+ */
+function dependencyParents(risks: Risk[]): DependencyLink[][] {
+  const indexById = new Map(risks.map((r, i) => [r.id, i]));
+  const parents: DependencyLink[][] = risks.map(() => []);
+  risks.forEach((risk, source) => {
+    for (const relation of risk.relatedRisks) {
+      const target = indexById.get(relation.riskId);
+      if (relation.relationType !== "dependency" || target === undefined || target === source) continue;
+      parents[target].push({
+        index: source,
+        strength: Math.max(0, Math.min(1, relation.strength ?? DEFAULT_RELATION_STRENGTH)),
+      });
+    }
+  });
+  return parents;
+}
+
+/**
+ * Noisy-OR of a risk's own probability and its dependency sources (fractions)
+ */
+function noisyOr(base: number, parents: DependencyLink[], probabilities: number[]): number {
+  if (parents.length === 0) return base;
+  let notOccurring = 1 - base;
+  for (const parent of parents) {
+    notOccurring *= 1 - parent.strength * probabilities[parent.index];
+  }
+  return 1 - notOccurring;
+}
+
+/**
+ * Strongest simple dependency chains ending at a risk, strongest first
+ * Formula: contribution = P_origin · Π strengths along the chain
+ * Depth-first from the strongest links, keeping only the best MAX_PATHS_PER_RISK; a chain is
+ * dropped unexplored once it cannot beat the weakest kept path, and the walk stops after
+ * MAX_PATH_EXTENSIONS steps, so dense relation graphs stay cheap
+ */
+function contributingPaths(
+  target: number,
+  risks: Risk[],
+  strongestParents: DependencyLink[][]
+): PropagationPath[] {
+  const paths: PropagationPath[] = [];
+  let extensions = 0;
+
+  // Extending a chain never raises its contribution above 100% × its strength product
+  const threshold = () =>
+    paths.length < MAX_PATHS_PER_RISK ? MIN_PATH_CONTRIBUTION : paths[paths.length - 1].contribution;
+
+  const keep = (path: PropagationPath) => {
+    const at = paths.findIndex((p) => p.contribution < path.contribution);
+    paths.splice(at === -1 ? paths.length : at, 0, path);
+    if (paths.length > MAX_PATHS_PER_RISK) paths.pop();
+  };
+
+  // Walk upstream; chain holds indexes from the current origin down to the target
+  const walk = (node: number, chain: number[], strengthProduct: number) => {
+    for (const parent of strongestParents[node]) {
+      if (extensions >= MAX_PATH_EXTENSIONS) return;
+      if (chain.includes(parent.index)) continue;
+      const product = strengthProduct * parent.strength;
+      // Parents are sorted by strength, so the remaining ones are weaker still
+      if (product * 100 < threshold()) return;
+      extensions++;
+
+      const extended = [parent.index, ...chain];
+      const contribution = risks[parent.index].probability * product;
+      if (contribution >= threshold()) {
+        keep({ riskIds: extended.map((i) => risks[i].id), contribution });
+      }
+      if (extended.length < MAX_PATH_LENGTH) walk(parent.index, extended, product);
+    }
+  };
+  walk(target, [target], 1);
+
+  return paths;
+}
+
+/**
+ * Propagate probabilities through the relation graph
+ * Dependency cycles are solved by fixed-point iteration from the risks' own probabilities,
+ * which converges because noisy-OR is monotone and bounded
+ */
+export function propagateProbabilities(risks: Risk[]): {
+  results: PropagationResult[];
+  summary: PropagationSummary;
+} {
+  const parents = dependencyParents(risks);
+  const children: number[][] = risks.map(() => []);
+  parents.forEach((list, target) => list.forEach((p) => children[p.index].push(target)));
+
+  const base = risks.map((r) => Math.max(0, Math.min(100, r.probability)) / 100);
+  const probabilities = [...base];
+  const components = stronglyConnectedComponents(children);
+  const cycles = components.filter((c) => c.length > 1);
+
+  let iterations = 1;
+  let converged = true;
+  for (const component of components) {
+    if (component.length === 1) {
+      const i = component[0];
+      probabilities[i] = noisyOr(base[i], parents[i], probabilities);
+      continue;
+    }
+
+    let pass = 0;
+    let change = Infinity;
+    while (change > PROPAGATION_TOLERANCE && pass < MAX_PROPAGATION_ITERATIONS) {
+      change = 0;
+      for (const i of component) {
+        const next = noisyOr(base[i], parents[i], probabilities);
+        change = Math.max(change, Math.abs(next - probabilities[i]));
+        probabilities[i] = next;
+      }
+      pass++;
+    }
+    iterations = Math.max(iterations, pass);
+    if (change > PROPAGATION_TOLERANCE) converged = false;
+  }
+
+  const cycleOf = new Map<number, string[]>();
+  for (const cycle of cycles) {
+    const ids = cycle.map((i) => risks[i].id);
+    cycle.forEach((i) => cycleOf.set(i, ids));
+  }
+
+  // Risks without dependency sources keep their entered probability exactly
+  const percent = (i: number) => (parents[i].length === 0 ? base[i] : probabilities[i]) * 100;
+
+  const strongestParents = parents.map((list) => [...list].sort((a, b) => b.strength - a.strength));
+  const results = risks.map((risk, i): PropagationResult => {
+    const inputs: PropagationInput[] = parents[i].map((p) => ({
+      riskId: risks[p.index].id,
+      strength: p.strength,
+      sourceProbability: percent(p.index),
+      transmittedProbability: p.strength * percent(p.index),
+    }));
+    const paths = contributingPaths(i, risks, strongestParents);
+    const concurrentRiskIds = risks
+      .filter(
+        (other) =>
+          other.id !== risk.id &&
+          (risk.relatedRisks.some((r) => r.riskId === other.id && r.relationType === "concurrent") ||
+            other.relatedRisks.some((r) => r.riskId === risk.id && r.relationType === "concurrent"))
+      )
+      .map((other) => other.id);
+
+    return {
+      riskId: risk.id,
+      originalProbability: risk.probability,
+      finalProbability: percent(i),
+      propagationPath: paths[0]?.riskIds ?? [],
+      inputs,
+      contributingPaths: paths,
+      concurrentRiskIds,
+      cycle: cycleOf.get(i),
+    };
+  });
+
+  return {
+    results,
+    summary: {
+      iterations,
+      converged,
+      cycles: cycles.map((c) => c.map((i) => risks[i].id)),
+    },
+  };
+}
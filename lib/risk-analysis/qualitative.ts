@@ -0,0 +1,75 @@
+/**
+ * Qualitative probability and impact scales and the 5x5 probability-impact matrix
+ * Impacts are placed by magnitude, so opportunities sit on the same matrix as threats
+ */
+
+import { MatrixPlacement, PropagationResult, QualitativeScales, Risk, ScaleBand } from "./types";
+
+export const MATRIX_SIZE = 5;
+
+const BAND_LABELS = ["Very Low", "Low", "Medium", "High", "Very High"];
+
+export const DEFAULT_QUALITATIVE_SCALES: QualitativeScales = {
+  probability: [
+    { label: BAND_LABELS[0], max: 10, value: 5 },
+    { label: BAND_LABELS[1], max: 30, value: 20 },
+    { label: BAND_LABELS[2], max: 50, value: 40 },
+    { label: BAND_LABELS[3], max: 70, value: 60 },
+    { label: BAND_LABELS[4], max: 100, value: 85 },
+  ],
+  impact: [
+    { label: BAND_LABELS[0], max: 5, value: 3 },
+    { label: BAND_LABELS[1], max: 10, value: 8 },
+    { label: BAND_LABELS[2], max: 20, value: 15 },
+    { label: BAND_LABELS[3], max: 40, value: 30 },
+    { label: BAND_LABELS[4], max: 100, value: 60 },
+  ],
+};
+
+/**
+ * Find the band a value falls in
+ * Formula: band = first band with value <= max; values above every max fall in the last band
+ */
+export function classifyValue(value: number, bands: ScaleBand[]): number {
+  const index = bands.findIndex((band, i) => i === bands.length - 1 || value <= band.max);
+  return Math.max(0, index);
+}
+
+/**
+ * Impact used to place a risk on the matrix
+ * Formula: impact = max(|timeImpactPercent|, |costImpactPercent|)
+ */
+export function matrixImpactPercent(risk: Risk): number {
+  return Math.max(Math.abs(risk.timeImpactPercent), Math.abs(risk.costImpactPercent));
+}
+
+/**
+ * Severity of a matrix cell, for colouring
+ * Formula: severity = (probabilityBand + 1) * (impactBand + 1), from 1 to 25
+ */
+export function matrixCellSeverity(probabilityBand: number, impactBand: number): number {
+  return (probabilityBand + 1) * (impactBand + 1);
+}
+
+/**
+ * Place each risk on the matrix before and after relationship propagation
+ */
+export function placeRisksOnMatrix(
+  risks: Risk[],
+  propagationResults: PropagationResult[],
+  scales: QualitativeScales
+): MatrixPlacement[] {
+  return risks.map((risk) => {
+    const propagated = propagationResults.find((p) => p.riskId === risk.id);
+    return {
+      riskId: risk.id,
+      type: risk.type ?? "threat",
+      impactBand: classifyValue(matrixImpactPercent(risk), scales.impact),
+      probabilityBand: classifyValue(risk.probability, scales.probability),
+      propagatedProbabilityBand: classifyValue(
+        propagated?.finalProbability ?? risk.probability,
+        scales.probability
+      ),
+    };
+  });
+}
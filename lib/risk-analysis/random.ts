@@ -0,0 +1,33 @@
+/**
+ * Pseudo-random number generation for the simulation engine
+ * A seeded generator makes Monte Carlo runs reproducible
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1)
+ * Same contract as Math.random, so any generator can be plugged in
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Create a seeded generator (mulberry32)
+ * The same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh seed for runs where the user did not supply one
+ * Seeds are unsigned 32-bit integers
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,53 @@
+/**
+ * Named combined scenarios: any set of risks evaluated together under a combination rule
+ * Scenarios use the propagated probabilities of an analysis run
+ */
+
+import { AnalysisOutput, CombinationRule, CombinedScenario, Input, Risk, ScenarioDefinition } from "./types";
+import { calculateCombinedImpact, enrichActivities } from "./calculations";
+
+export const COMBINATION_RULES: { id: CombinationRule; label: string; description: string }[] = [
+  {
+    id: "independent",
+    label: "Independent",
+    description: "Each risk scales a shared activity in turn, so impacts compound",
+  },
+  {
+    id: "additive",
+    label: "Additive (capped)",
+    description: "Impacts on a shared activity add up, capped at 200%",
+  },
+  {
+    id: "maxOf",
+    label: "Max-of",
+    description: "Only the largest impact on a shared activity counts",
+  },
+];
+
+/**
+ * Risks with the propagated probabilities from an analysis run
+ * Risks added since the run keep their entered probability
+ */
+export function risksWithPropagatedProbabilities(input: Input, analysis: AnalysisOutput): Risk[] {
+  const propagated = new Map(analysis.propagationResults.map((p) => [p.riskId, p.finalProbability]));
+  return input.risks.map((r) => ({ ...r, probability: propagated.get(r.id) ?? r.probability }));
+}
+
+/**
+ * Evaluate a saved scenario against an analysis run
+ */
+export function evaluateScenario(
+  definition: ScenarioDefinition,
+  input: Input,
+  analysis: AnalysisOutput
+): CombinedScenario {
+  return {
+    ...calculateCombinedImpact(
+      definition.riskIds,
+      risksWithPropagatedProbabilities(input, analysis),
+      enrichActivities(input.activities),
+      definition.rule
+    ),
+    name: definition.name,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Shared mapping from imported schedules to wizard activities
+ * Format-specific parsers produce groups of tasks; this module assigns wizard IDs
+ * (A-n for artifacts, A-n-m for their activities) and remaps logic links
+ */
+
+import {
+  Activity,
+  ActivityPredecessor,
+  DependencyType,
+  ImportIssue,
+  ScheduleImportResult,
+} from "./types";
+
+export interface ImportedPredecessor {
+  sourceId: string;
+  type: DependencyType;
+  lagDays: number;
+}
+
+export interface ImportedTask {
+  sourceId: string;
+  title: string;
+  start: string; // ISO date string
+  end: string; // ISO date string
+  cost: number;
+  predecessors: ImportedPredecessor[];
+}
+
+// A Level 1 artifact and the Level 2 tasks beneath it
+export interface ImportedGroup {
+  sourceId: string;
+  title: string;
+  tasks: ImportedTask[];
+}
+
+/**
+ * Convert an ISO date-time from a schedule file to an ISO date
+ */
+export function toIsoDate(value: string | null | undefined): string {
+  if (!value) return "";
+  const date = value.trim().split(/[T ]/)[0];
+  return isNaN(new Date(date).getTime()) ? "" : date;
+}
+
+/**
+ * Build wizard activities from imported groups
+ * Links to tasks that were not imported are dropped and reported
+ */
+export function buildImportedActivities(
+  groups: ImportedGroup[],
+  skipped: ImportIssue[],
+  warnings: string[]
+): ScheduleImportResult {
+  const activities: Activity[] = [];
+  const wizardIdBySourceId = new Map<string, string>();
+
+  // First pass: assign IDs so links can point forwards
+  groups
+    .filter((g) => g.tasks.length > 0)
+    .forEach((group, groupIndex) => {
+      const artifactId = `A-${groupIndex + 1}`;
+      group.tasks.forEach((task, taskIndex) => {
+        wizardIdBySourceId.set(task.sourceId, `${artifactId}-${taskIndex + 1}`);
+      });
+    });
+
+  groups
+    .filter((g) => g.tasks.length > 0)
+    .forEach((group, groupIndex) => {
+      const artifactId = `A-${groupIndex + 1}`;
+      activities.push({
+        id: artifactId,
+        title: group.title,
+        level: 1,
+        start: "",
+        end: "",
+        cost: 0,
+        externalId: group.sourceId,
+      });
+
+      for (const task of group.tasks) {
+        const predecessors: ActivityPredecessor[] = [];
+        for (const link of task.predecessors) {
+          const predecessorId = wizardIdBySourceId.get(link.sourceId);
+          if (predecessorId) {
+            predecessors.push({
+              activityId: predecessorId,
+              type: link.type,
+              lagDays: link.lagDays,
+            });
+          } else {
+            warnings.push(
+              `Link from ${link.sourceId} to "${task.title}" dropped: predecessor was not imported`
+            );
+          }
+        }
+
+        activities.push({
+          id: wizardIdBySourceId.get(task.sourceId)!,
+          title: task.title,
+          level: 2,
+          start: task.start,
+          end: task.end,
+          cost: task.cost,
+          predecessors: predecessors.length > 0 ? predecessors : undefined,
+          externalId: task.sourceId,
+        });
+      }
+    });
+
+  return { activities, skipped, warnings };
+}
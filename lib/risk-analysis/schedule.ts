@@ -0,0 +1,282 @@
+/**
+ * Schedule network and critical path method (CPM)
+ * Forward/backward pass over Level 2 activities linked by FS/SS/FF/SF logic with lags
+ */
+
+import {
+  Activity,
+  DependencyType,
+  ScheduleResult,
+  ScheduledActivity,
+} from "./types";
+import { calculateDurationDays } from "./calculations";
+
+/**
+ * Compiled schedule network, built once and reused for many passes
+ * All times are in days relative to the project start
+ */
+export interface ScheduleNetwork {
+  projectStart: string;
+  ids: string[];
+  indexById: Map<string, number>;
+  durations: number[];
+  startOffsets: number[]; // Planned start, used for activities without predecessors
+  predecessors: { index: number; type: DependencyType; lag: number }[][];
+  order: number[]; // Topological order of activity indices
+}
+
+/**
+ * Activities that take part in the network: Level 2 with both dates
+ */
+function getScheduledActivities(activities: Activity[]): Activity[] {
+  return activities.filter((a) => a.level === 2 && a.start && a.end);
+}
+
+/**
+ * Add calendar days to an ISO date string
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + Math.ceil(days));
+  return result.toISOString().split("T")[0];
+}
+
+/**
+ * Topological order of the predecessor graph (Kahn's algorithm)
+ * Returns the order and the indices left over, which are the nodes on or behind a cycle
+ */
+function topologicalOrder(
+  count: number,
+  predecessors: { index: number }[][]
+): { order: number[]; remaining: number[] } {
+  const inDegree = new Array(count).fill(0);
+  const successors: number[][] = Array.from({ length: count }, () => []);
+  predecessors.forEach((preds, i) => {
+    for (const pred of preds) {
+      inDegree[i]++;
+      successors[pred.index].push(i);
+    }
+  });
+
+  const queue: number[] = [];
+  inDegree.forEach((d, i) => {
+    if (d === 0) queue.push(i);
+  });
+
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const i = queue.shift()!;
+    order.push(i);
+    for (const s of successors[i]) {
+      inDegree[s]--;
+      if (inDegree[s] === 0) queue.push(s);
+    }
+  }
+
+  const remaining: number[] = [];
+  inDegree.forEach((d, i) => {
+    if (d > 0) remaining.push(i);
+  });
+  return { order, remaining };
+}
+
+/**
+ * Compile activities into a schedule network
+ * Links to unknown or Level 1 activities are ignored (reported by validation)
+ * Throws if the logic contains a cycle, since no valid schedule exists
+ */
+export function buildScheduleNetwork(activities: Activity[]): ScheduleNetwork {
+  const scheduled = getScheduledActivities(activities);
+
+  const projectStart = scheduled.reduce(
+    (earliest, a) =>
+      !earliest || new Date(a.start) < new Date(earliest) ? a.start : earliest,
+    ""
+  );
+
+  const ids = scheduled.map((a) => a.id);
+  const indexById = new Map(ids.map((id, i) => [id, i]));
+
+  const durations = scheduled.map(
+    (a) => a.durationDays ?? calculateDurationDays(a.start, a.end)
+  );
+  const startOffsets = scheduled.map((a) =>
+    calculateDurationDays(projectStart, a.start)
+  );
+
+  const predecessors = scheduled.map((a) =>
+    (a.predecessors ?? [])
+      .filter((p) => indexById.has(p.activityId) && p.activityId !== a.id)
+      .map((p) => ({
+        index: indexById.get(p.activityId)!,
+        type: p.type,
+        lag: p.lagDays ?? 0,
+      }))
+  );
+
+  const { order, remaining } = topologicalOrder(ids.length, predecessors);
+  if (remaining.length > 0) {
+    throw new Error(
+      `Schedule logic contains a cycle involving: ${remaining
+        .map((i) => ids[i])
+        .join(", ")}`
+    );
+  }
+
+  return {
+    projectStart,
+    ids,
+    indexById,
+    durations,
+    startOffsets,
+    predecessors,
+    order,
+  };
+}
+
+/**
+ * Find activities involved in (or blocked behind) a logic cycle
+ * Returns null when the network is acyclic
+ */
+export function findScheduleCycle(activities: Activity[]): string[] | null {
+  const scheduled = getScheduledActivities(activities);
+  const indexById = new Map(scheduled.map((a, i) => [a.id, i]));
+  const predecessors = scheduled.map((a) =>
+    (a.predecessors ?? [])
+      .filter((p) => indexById.has(p.activityId))
+      .map((p) => ({ index: indexById.get(p.activityId)! }))
+  );
+  const { remaining } = topologicalOrder(scheduled.length, predecessors);
+  return remaining.length > 0 ? remaining.map((i) => scheduled[i].id) : null;
+}
+
+/**
+ * Forward pass
+ * Formula (ES of successor S given predecessor P, duration d_S):
+ *   FS: ES_S >= EF_P + lag
+ *   SS: ES_S >= ES_P + lag
+ *   FF: ES_S >= EF_P + lag - d_S
+ *   SF: ES_S >= ES_P + lag - d_S
+ * Activities without predecessors start at their planned start date
+ */
+function forwardPass(
+  network: ScheduleNetwork,
+  durations: number[]
+): { earlyStart: number[]; earlyFinish: number[] } {
+  const count = network.ids.length;
+  const earlyStart = new Array(count).fill(0);
+  const earlyFinish = new Array(count).fill(0);
+
+  for (const i of network.order) {
+    const d = durations[i];
+    const preds = network.predecessors[i];
+    let es = preds.length === 0 ? network.startOffsets[i] : 0;
+
+    for (const p of preds) {
+      switch (p.type) {
+        case "FS":
+          es = Math.max(es, earlyFinish[p.index] + p.lag);
+          break;
+        case "SS":
+          es = Math.max(es, earlyStart[p.index] + p.lag);
+          break;
+        case "FF":
+          es = Math.max(es, earlyFinish[p.index] + p.lag - d);
+          break;
+        case "SF":
+          es = Math.max(es, earlyStart[p.index] + p.lag - d);
+          break;
+      }
+    }
+
+    earlyStart[i] = Math.max(0, es);
+    earlyFinish[i] = earlyStart[i] + d;
+  }
+
+  return { earlyStart, earlyFinish };
+}
+
+/**
+ * Critical path length (project duration in days) for the given activity durations
+ * Formula: projectDuration = max(EF_i)
+ * Forward pass only, cheap enough to run once per Monte Carlo iteration
+ */
+export function calculateProjectDuration(
+  network: ScheduleNetwork,
+  durations: number[] = network.durations
+): number {
+  const { earlyFinish } = forwardPass(network, durations);
+  return earlyFinish.reduce((max, ef) => Math.max(max, ef), 0);
+}
+
+/**
+ * Full CPM: forward and backward pass, project finish date and total float
+ * Formula (LF of predecessor P given successor S, duration d_P):
+ *   FS: LF_P <= LS_S - lag
+ *   SS: LF_P <= LS_S - lag + d_P
+ *   FF: LF_P <= LF_S - lag
+ *   SF: LF_P <= LF_S - lag + d_P
+ * Formula: totalFloat = LS - ES; critical when totalFloat = 0
+ */
+export function calculateSchedule(activities: Activity[]): ScheduleResult {
+  const network = buildScheduleNetwork(activities);
+  const { durations } = network;
+  const count = network.ids.length;
+
+  const { earlyStart, earlyFinish } = forwardPass(network, durations);
+  const projectDuration = earlyFinish.reduce((max, ef) => Math.max(max, ef), 0);
+
+  const lateFinish = new Array(count).fill(projectDuration);
+  for (let k = network.order.length - 1; k >= 0; k--) {
+    const s = network.order[k];
+    const lateStartS = lateFinish[s] - durations[s];
+    for (const p of network.predecessors[s]) {
+      const d = durations[p.index];
+      let limit: number;
+      switch (p.type) {
+        case "FS":
+          limit = lateStartS - p.lag;
+          break;
+        case "SS":
+          limit = lateStartS - p.lag + d;
+          break;
+        case "FF":
+          limit = lateFinish[s] - p.lag;
+          break;
+        case "SF":
+          limit = lateFinish[s] - p.lag + d;
+          break;
+      }
+      lateFinish[p.index] = Math.min(lateFinish[p.index], limit);
+    }
+  }
+
+  const scheduledActivities: ScheduledActivity[] = network.ids.map((id, i) => {
+    const lateStart = lateFinish[i] - durations[i];
+    const totalFloat = lateStart - earlyStart[i];
+    return {
+      activityId: id,
+      earlyStart: earlyStart[i],
+      earlyFinish: earlyFinish[i],
+      lateStart,
+      lateFinish: lateFinish[i],
+      totalFloat,
+      critical: totalFloat <= 1e-9,
+    };
+  });
+
+  const criticalPath = scheduledActivities
+    .filter((a) => a.critical)
+    .sort((a, b) => a.earlyStart - b.earlyStart)
+    .map((a) => a.activityId);
+
+  return {
+    projectStart: network.projectStart,
+    projectFinish: network.projectStart
+      ? addDays(network.projectStart, projectDuration)
+      : "",
+    projectDuration,
+    activities: scheduledActivities,
+    criticalPath,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Behavior score profiles
+ * A profile sets the weight of each score component; the default reproduces the original formula
+ */
+
+import { CentralityMetric, ScoreComponent, ScoringProfile } from "./types";
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: "Default",
+  weights: {
+    timeImpact: 0.35,
+    costImpact: 0.25,
+    dependencyCentrality: 0.2,
+    timeSensitivity: 0.15,
+    detectability: -0.05,
+    scopeImpact: 0,
+    proximity: 0,
+  },
+};
+
+// Components in display order, with what each measures
+export const SCORE_COMPONENTS: { id: ScoreComponent; label: string; description: string }[] = [
+  {
+    id: "timeImpact",
+    label: "Time impact",
+    description: "Expected time impact, relative to the largest in the register",
+  },
+  {
+    id: "costImpact",
+    label: "Cost impact",
+    description: "Expected cost impact, relative to the largest in the register",
+  },
+  {
+    id: "dependencyCentrality",
+    label: "Dependency centrality",
+    description: "Network centrality (per the profile's metric), relative to the most central risk",
+  },
+  {
+    id: "timeSensitivity",
+    label: "Time sensitivity",
+    description: "100 if the risk affects a Level 1 artifact (milestone), else 0",
+  },
+  {
+    id: "detectability",
+    label: "Detectability",
+    description: "100 if the risk has a trigger, else 50; usually weighted negatively",
+  },
+  {
+    id: "scopeImpact",
+    label: "Scope impact",
+    description: "Scope impact percentage, capped at 100",
+  },
+  {
+    id: "proximity",
+    label: "Proximity",
+    description: "100 if the earliest affected activity starts at the project start, falling to 0 at the finish",
+  },
+];
+
+// Network measures offered as the dependency centrality component
+export const CENTRALITY_METRICS: { id: CentralityMetric; label: string; description: string }[] = [
+  { id: "degree", label: "Degree", description: "Number of relations to and from the risk" },
+  {
+    id: "weightedDegree",
+    label: "Weighted degree",
+    description: "Sum of relation strengths into and out of the risk",
+  },
+  {
+    id: "betweenness",
+    label: "Betweenness",
+    description: "How often the risk lies on the strongest chain between two other risks",
+  },
+  {
+    id: "pageRank",
+    label: "PageRank",
+    description: "Exposure to upstream risks, counting the sources' own exposure",
+  },
+];
+
+/**
+ * Fill in weights missing from a profile (e.g. one saved before a component was added)
+ */
+export function normalizeScoringProfile(profile: ScoringProfile): ScoringProfile {
+  return {
+    name: profile.name,
+    weights: { ...DEFAULT_SCORING_PROFILE.weights, ...profile.weights },
+    centralityMetric: profile.centralityMetric ?? "degree",
+  };
+}
@@ -5,6 +5,15 @@
 
 export type ActivityLevel = 1 | 2;
 
+// Logic link types: finish-to-start, start-to-start, finish-to-finish, start-to-finish
+export type DependencyType = "FS" | "SS" | "FF" | "SF";
+
+export interface ActivityPredecessor {
+  activityId: string; // Predecessor activity ID (Level 2 only)
+  type: DependencyType;
+  lagDays?: number; // default 0, negative values are leads
+}
+
 export interface Activity {
   id: string;
   title: string;
@@ -12,22 +21,41 @@ export interface Activity {
   start: string; // ISO date string
   end: string; // ISO date string
   cost: number;
+  predecessors?: ActivityPredecessor[]; // Level 2 only
+  durationEstimate?: ThreePointEstimate; // Days, Level 2 only; sampled by Monte Carlo
+  costEstimate?: ThreePointEstimate; // Level 2 only; sampled by Monte Carlo
+  externalId?: string; // ID in the source schedule when imported (e.g. MS Project UID)
   // Derived fields (computed)
   durationDays?: number;
   baselineCost?: number;
 }
 
+// Estimating uncertainty of an activity's duration or cost
+export interface ThreePointEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
+  distribution?: "triangular" | "pert"; // default "pert"
+}
+
 export type RelationType = "dependency" | "concurrent";
 
+// Threats add time and cost; opportunities have negative impacts that save them
+export type RiskType = "threat" | "opportunity";
+
 export interface RiskRelation {
   riskId: string;
   relationType: RelationType;
-  strength?: number; // default 0.3
+  strength?: number; // 0-1, default DEFAULT_RELATION_STRENGTH
 }
 
+// Strength of a relation saved without one, shared by propagation, graph analytics and Monte Carlo
+export const DEFAULT_RELATION_STRENGTH = 0.3;
+
 export interface Risk {
   id: string;
   title: string;
+  type?: RiskType; // default "threat"; opportunity impacts are between -100 and 0
   probability: number; // 0-100
   timeImpactPercent: number;
   costImpactPercent: number;
@@ -37,6 +65,44 @@ export interface Risk {
   responsePlan: string;
   relatedRisks: RiskRelation[];
   affectedActivities: string[]; // Activity IDs
+  timeImpactDistribution?: ImpactDistribution; // Monte Carlo spread of timeImpactPercent
+  costImpactDistribution?: ImpactDistribution; // Monte Carlo spread of costImpactPercent
+  mitigations?: MitigationOption[];
+}
+
+// A way to reduce a risk; residual values replace the risk's own once implemented
+export interface MitigationOption {
+  id: string; // Unique within the risk, e.g. "M-1"
+  description: string;
+  cost: number;
+  residualProbability: number; // 0-100
+  residualTimeImpactPercent: number;
+  residualCostImpactPercent: number;
+  owner: string;
+}
+
+// Uncertainty of an impact percentage, sampled by Monte Carlo
+// Omitted: triangular at 0.8×/1.0×/1.2× of the point estimate
+export type ImpactDistributionType =
+  | "triangular"
+  | "pert"
+  | "uniform"
+  | "lognormal"
+  | "discrete";
+
+export interface ImpactDistribution {
+  type: ImpactDistributionType;
+  min?: number; // triangular, pert, uniform
+  mostLikely?: number; // triangular, pert
+  max?: number; // triangular, pert, uniform
+  mean?: number; // lognormal
+  stdDev?: number; // lognormal
+  outcomes?: DiscreteOutcome[]; // discrete
+}
+
+export interface DiscreteOutcome {
+  value: number; // Impact percentage
+  probability: number; // 0-100, outcomes sum to 100
 }
 
 export interface Input {
@@ -44,6 +110,19 @@ export interface Input {
   risks: Risk[];
 }
 
+// Schedule import (MS Project XML and similar formats)
+export interface ImportIssue {
+  sourceId: string; // ID of the item in the source file
+  name: string;
+  reason: string;
+}
+
+export interface ScheduleImportResult {
+  activities: Activity[];
+  skipped: ImportIssue[]; // Items that could not be mapped
+  warnings: string[]; // Items mapped with assumptions
+}
+
 // Sensitivity analysis output
 export interface Sensitivity {
   probabilitySensitivity: number;
@@ -56,12 +135,108 @@ export interface Sensitivity {
 export interface Recommendation {
   action: string;
   ROI?: number; // Only if mitigation cost is provided
+  riskId?: string;
+  mitigationId?: string;
+  owner?: string;
+  mitigationCost?: number;
+  preMitigation?: MitigationImpact;
+  postMitigation?: MitigationImpact;
+}
+
+// Expected impact of a risk before or after a mitigation
+export interface MitigationImpact {
+  probability: number; // Propagated probability, 0-100
+  expectedTimeImpact: number;
+  expectedCostImpact: number;
+}
+
+// Mitigation portfolio optimisation under a budget
+export type PortfolioObjective = "expectedImpact" | "p80Cost";
+
+export interface PortfolioOptions {
+  budget: number; // Available for mitigation spend
+  objective: PortfolioObjective;
+  costPerDay?: number; // Values expected days saved; default is the plan's average daily cost
+  iterations?: number; // Monte Carlo iterations per portfolio (p80Cost only)
+  seed?: number; // Shared by every portfolio so P80s are compared on the same samples
+}
+
+export interface PortfolioSelection {
+  riskId: string;
+  mitigationId: string;
+}
+
+export interface PortfolioPoint {
+  cost: number;
+  expectedCostReduction: number;
+  expectedTimeReduction: number; // Days
+  benefit: number; // expectedCostReduction + costPerDay * expectedTimeReduction
+  selections: PortfolioSelection[];
+  p80Cost?: number; // Simulated P80 total cost with the selections applied (p80Cost only)
+}
+
+// p80Cost objective: frontier portfolios waiting to be simulated (see planP80Portfolio)
+export interface PortfolioP80Plan {
+  options: PortfolioOptions;
+  costPerDay: number;
+  frontier: PortfolioPoint[];
+  candidates: PortfolioPoint[]; // Affordable portfolios to simulate, most benefit last
+  iterations: number; // Per portfolio
+  seed: number; // Shared by every portfolio
+}
+
+export interface PortfolioResult {
+  budget: number;
+  objective: PortfolioObjective;
+  costPerDay: number;
+  frontier: PortfolioPoint[]; // Efficient portfolios in order of cost; each adds benefit
+  best: PortfolioPoint; // Chosen portfolio within the budget
+  baselineP80Cost?: number; // P80 total cost with no mitigations (p80Cost only)
+  seed?: number;
+}
+
+// What-if sandbox: parameters overridden on a copy of the input; omitted fields keep the register's value
+export interface RiskOverride {
+  riskId: string;
+  probability?: number; // 0-100
+  timeImpactPercent?: number;
+  costImpactPercent?: number;
+}
+
+export interface ActivityOverride {
+  activityId: string;
+  cost?: number;
+  durationDays?: number; // Moves the end date; the start date stays
+}
+
+export interface WhatIfOverrides {
+  risks: RiskOverride[];
+  activities: ActivityOverride[];
+}
+
+// One risk in the baseline run and the what-if run
+export interface WhatIfRiskComparison {
+  riskId: string;
+  baseline: RiskAnalysisOutput;
+  whatIf: RiskAnalysisOutput;
+  baselineRank: number; // 1-based position by behavior score
+  whatIfRank: number;
+  baselineImpactRank: number; // 1-based position by expected impact
+  whatIfImpactRank: number;
+}
+
+export interface WhatIfResult {
+  overrides: WhatIfOverrides;
+  input: Input; // Copy of the baseline input with the overrides applied
+  output: AnalysisOutput;
+  risks: WhatIfRiskComparison[]; // In baseline behavior score order
 }
 
 // Per-risk analysis output
 export interface RiskAnalysisOutput {
   riskId: string;
   title: string;
+  type: RiskType;
   affectedDurationSum: number;
   affectedCostSum: number;
   addedDays: number;
@@ -71,17 +246,91 @@ export interface RiskAnalysisOutput {
   scopeChangeRatio: number;
   propagatedProbability: number;
   behaviorScore: number;
+  scoreBreakdown?: ScoreBreakdown; // Weighted contribution of each component to behaviorScore
+  network?: RiskNetworkMetrics;
   sensitivity: Sensitivity;
   recommendations: Recommendation[];
 }
 
+// Components of the behavior score, each measured on a 0-100 scale before weighting
+export type ScoreComponent =
+  | "timeImpact"
+  | "costImpact"
+  | "dependencyCentrality"
+  | "timeSensitivity"
+  | "detectability"
+  | "scopeImpact"
+  | "proximity";
+
+// Weight per component; a negative weight lowers the score
+export type ScoringWeights = Record<ScoreComponent, number>;
+
+// Network measure used as the dependency centrality component
+export type CentralityMetric = "degree" | "weightedDegree" | "betweenness" | "pageRank";
+
+// Named set of behavior score weights
+export interface ScoringProfile {
+  name: string;
+  weights: ScoringWeights;
+  centralityMetric?: CentralityMetric; // default "degree"
+}
+
+// Position of a risk in the relation network
+export interface RiskNetworkMetrics {
+  riskId: string;
+  degree: number; // Own relations plus risks relating to it
+  weightedInDegree: number; // Sum of strengths into the risk (concurrent links count both ways)
+  weightedOutDegree: number; // Sum of strengths out of the risk
+  betweenness: number; // Share of strongest paths between other risks that pass through it (0-1)
+  pageRank: number; // Sums to 1 over the network
+  componentSize: number; // Risks in its dependency strongly connected component (1 if on no cycle)
+  centrality: number; // Chosen metric scaled to 0-100, as used in the behavior score
+}
+
+// Weight x component value, per component; the behavior score is their sum clamped to 0-100
+export type ScoreBreakdown = Record<ScoreComponent, number>;
+
+// Sum of expected impacts over one type of risk
+export interface ImpactTotals {
+  count: number;
+  expectedTimeImpact: number;
+  expectedCostImpact: number;
+}
+
+// How the impacts of scenario risks that hit the same activity combine
+// independent: each risk scales the activity in turn, so percentages compound
+// additive: percentages add, capped at 200% (and at -100% for opportunities)
+// maxOf: only the largest impact on the activity counts
+export type CombinationRule = "independent" | "additive" | "maxOf";
+
+// Named set of risks to evaluate together, saved with the project
+export interface ScenarioDefinition {
+  name: string;
+  riskIds: string[];
+  rule: CombinationRule;
+}
+
+// What one risk adds to a scenario if every risk occurs: the scenario minus the scenario without it
+export interface MarginalContribution {
+  riskId: string;
+  addedDays: number;
+  addedCost: number;
+}
+
 // Combined scenario output
 export interface CombinedScenario {
+  name?: string; // Saved scenarios only
   riskIds: string[];
-  combinedTimeImpactPercent: number;
-  combinedCostImpactPercent: number;
-  combinedExpectedTimeImpact: number;
+  rule?: CombinationRule; // default "additive"
+  jointProbability?: number; // % chance that every risk occurs, treating them as independent
+  affectedActivityIds?: string[]; // Level 2 activities hit by any of the risks
+  addedDays?: number; // If every risk occurs
+  addedCost?: number;
+  combinedTimeImpactPercent: number; // Added days over the affected activities' total duration
+  combinedCostImpactPercent: number; // Added cost over the affected activities' total cost
+  combinedExpectedTimeImpact: number; // addedDays * jointProbability
   combinedExpectedCostImpact: number;
+  marginalContributions?: MarginalContribution[];
 }
 
 // Propagation result
@@ -89,33 +338,141 @@ export interface PropagationResult {
   riskId: string;
   originalProbability: number;
   finalProbability: number;
-  propagationPath: string[];
+  propagationPath: string[]; // Strongest contributing path, source first; empty if nothing propagates in
+  inputs?: PropagationInput[]; // Dependency links into this risk
+  contributingPaths?: PropagationPath[]; // Strongest first
+  concurrentRiskIds?: string[]; // Coupled by concurrent links (joint occurrence only)
+  cycle?: string[]; // Risks on a dependency cycle with this one, including itself
+}
+
+// Dependency link into a risk, as evaluated in the final propagation pass
+export interface PropagationInput {
+  riskId: string; // Source risk
+  strength: number;
+  sourceProbability: number; // Source's propagated probability (%)
+  transmittedProbability: number; // strength x sourceProbability (%)
+}
+
+// Chain of dependency links from an originating risk
+export interface PropagationPath {
+  riskIds: string[]; // Originating risk first, this risk last
+  contribution: number; // Originating risk's own probability x product of strengths (%)
+}
+
+// How the propagation engine finished
+export interface PropagationSummary {
+  iterations: number; // Most passes needed by any dependency cycle (1 when acyclic)
+  converged: boolean;
+  cycles: string[][]; // Risk IDs of each dependency cycle (strongly connected component)
+}
+
+// Critical path method output for a single activity (days from project start)
+export interface ScheduledActivity {
+  activityId: string;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloat: number;
+  critical: boolean;
+}
+
+// Forward/backward pass output for the schedule network
+export interface ScheduleResult {
+  projectStart: string; // ISO date string
+  projectFinish: string; // ISO date string
+  projectDuration: number; // Critical path length in days
+  activities: ScheduledActivity[];
+  criticalPath: string[]; // Activity IDs with zero total float, in start order
 }
 
 // Monte Carlo simulation output (optional)
 export interface MonteCarloOutput {
   enabled: boolean;
   iterations?: number;
-  totalCostDistribution?: {
-    mean: number;
-    stdDev: number;
-    percentiles: {
-      p10: number;
-      p50: number;
-      p90: number;
-    };
-  };
-  totalDurationDistribution?: {
-    mean: number;
-    stdDev: number;
-    percentiles: {
-      p10: number;
-      p50: number;
-      p90: number;
-    };
-  };
+  seed?: number; // PRNG seed used, re-run with it to reproduce the figures
+  partial?: boolean; // Summary of a run still in progress or cancelled; iterations = completed so far
+  convergence?: MonteCarloConvergence; // Present for runs that stop once percentiles stabilise
+  totalCostDistribution?: DistributionSummary;
+  totalDurationDistribution?: DistributionSummary;
+  baselineCost?: number; // Sum of Level 2 activity costs, before risks
+  baselineDuration?: number; // Critical path length in days, before risks
+  costContingency?: ConfidenceReserve; // Percentile cost minus baseline cost
+  durationContingency?: ConfidenceReserve; // Percentile duration minus baseline duration
+  deadlineDate?: string; // Target finish date (ISO date string)
+  deadlineDays?: number; // Target finish as days from project start
+  budget?: number;
   probabilityOverDeadline?: number;
   probabilityOverBudget?: number;
+  riskSensitivity?: MonteCarloRiskSensitivity[]; // Sorted by duration contribution
+  correlationEffect?: CorrelationEffect; // Present when risks are related
+}
+
+// Convergence-based stopping: iterations is the number actually run
+export interface MonteCarloConvergence {
+  tolerance: number; // Max standard error of cost/duration P50 and P90, as % of the percentile
+  maxIterations: number;
+  converged: boolean; // False when maxIterations was reached first
+}
+
+// Correlated run compared with independent sampling at the same occurrence rates
+export interface CorrelationEffect {
+  dependencyLinks: number;
+  concurrentLinks: number;
+  matrixAdjusted: boolean; // Concurrent strengths were scaled down to form a valid correlation matrix
+  independentCostP90: number;
+  independentDurationP90: number;
+  independentCostStdDev: number;
+  independentDurationStdDev: number;
+  costP90Increase: number; // Correlated P90 minus independent P90
+  durationP90Increase: number;
+}
+
+// How strongly one risk drives the spread of simulated totals
+export interface MonteCarloRiskSensitivity {
+  riskId: string;
+  title: string;
+  occurrenceRate: number; // Share of iterations in which the risk fired (0-1)
+  costCorrelation: number; // Spearman rank correlation with total cost (-1 to 1)
+  durationCorrelation: number; // Spearman rank correlation with total duration (-1 to 1)
+  costVarianceContribution: number; // Share of explained cost variance (0-100%)
+  durationVarianceContribution: number; // Share of explained duration variance (0-100%)
+}
+
+// Simulated distribution of a project total
+export interface DistributionSummary {
+  mean: number;
+  stdDev: number;
+  percentiles: PercentileValues;
+  standardErrors?: PercentileValues; // Sampling standard error of each percentile
+  histogram: HistogramBin[];
+  cdf: CumulativePoint[]; // Every 5th percentile, P0 (min) to P100 (max)
+}
+
+export interface PercentileValues {
+  p10: number;
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+  frequency: number; // Share of iterations (0-1)
+}
+
+export interface CumulativePoint {
+  percentile: number; // 0-100
+  value: number;
+}
+
+// Reserve needed to reach each confidence level
+export interface ConfidenceReserve {
+  p50: number;
+  p80: number;
+  p90: number;
 }
 
 // Main analysis output
@@ -123,8 +480,103 @@ export interface AnalysisOutput {
   perRiskAnalysis: RiskAnalysisOutput[];
   combinedScenarios: CombinedScenario[];
   propagationResults: PropagationResult[];
+  propagationSummary?: PropagationSummary;
   topRisksByBehaviorScore: RiskAnalysisOutput[];
   topRisksByExpectedImpact: RiskAnalysisOutput[];
+  schedule: ScheduleResult;
+  recommendations?: Recommendation[]; // Mitigations across all risks, best ROI first
+  threatTotals?: ImpactTotals;
+  opportunityTotals?: ImpactTotals; // Expected impacts are negative (savings)
   monteCarlo?: MonteCarloOutput;
 }
 
+
+// Monte Carlo settings as entered in the wizard
+export interface MonteCarloSettings {
+  enabled: boolean;
+  iterations: number; // Iterations to run, or the cap when stopping on convergence
+  seed?: number; // Omitted for a fresh random seed on each run
+  stopOnConvergence?: boolean;
+  tolerance?: number; // % standard error of P50/P90 at which to stop
+}
+
+// One band of a qualitative scale, lowest band first
+// A value falls in the first band whose max it does not exceed; the last band is open-ended
+export interface ScaleBand {
+  label: string; // e.g. "Very Low"
+  max: number;
+  value: number; // Numeric value used when a risk is entered with this band
+}
+
+// Qualitative scales for the probability-impact matrix (five bands each)
+export interface QualitativeScales {
+  probability: ScaleBand[]; // Probability %
+  impact: ScaleBand[]; // Time or cost impact, % of the affected activities
+}
+
+// A risk's cell on the probability-impact matrix (band indexes, 0 = lowest)
+export interface MatrixPlacement {
+  riskId: string;
+  type: RiskType;
+  impactBand: number; // Worse of the time and cost impact bands
+  probabilityBand: number; // From the risk's own probability
+  propagatedProbabilityBand: number; // After relationship propagation
+}
+
+// Analysis settings saved with a project
+export interface ProjectSettings {
+  monteCarlo: MonteCarloSettings;
+  deadline?: string; // ISO date string, target finish
+  budget?: number;
+  scoringProfile?: ScoringProfile; // default DEFAULT_SCORING_PROFILE
+  qualitativeScales?: QualitativeScales; // default DEFAULT_QUALITATIVE_SCALES
+  scenarios?: ScenarioDefinition[]; // Saved combined scenarios, default none
+}
+
+// Saved risk analysis project (versioned JSON file)
+export interface ProjectFile {
+  format: "projetools-risk-analysis";
+  schemaVersion: number;
+  savedAt: string; // ISO date-time string
+  name?: string;
+  input: Input;
+  settings: ProjectSettings;
+  results?: AnalysisOutput; // Last analysis run, if saved with results
+}
+
+// Named draft kept in browser storage
+export interface DraftSummary {
+  id: string;
+  name: string;
+  savedAt: string; // ISO date-time string
+  activityCount: number;
+  riskCount: number;
+}
+
+// Monte Carlo Web Worker protocol
+export type MonteCarloWorkerRequest = MonteCarloSimulationRequest | PortfolioP80Request;
+
+export interface MonteCarloSimulationRequest {
+  type: "simulate";
+  input: Input;
+  iterations: number;
+  deadline?: string; // ISO date string, target finish
+  budget?: number;
+  seed?: number;
+  tolerance?: number; // Stop on convergence; iterations is then the cap
+}
+
+// Simulate each set of mitigations applied to the input and report its P80 total cost
+export interface PortfolioP80Request {
+  type: "portfolioP80";
+  input: Input;
+  portfolios: PortfolioSelection[][];
+  iterations: number; // Per portfolio
+  seed: number;
+}
+
+export type MonteCarloWorkerMessage =
+  | { type: "progress"; completed: number; total: number; partial?: MonteCarloOutput }
+  | { type: "done"; result: MonteCarloOutput }
+  | { type: "portfolioDone"; p80Costs: number[] } // In request order
+  | { type: "error"; message: string };
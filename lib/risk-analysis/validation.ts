@@ -2,7 +2,20 @@
  * Validation utilities for Risk Behavior Analysis inputs
  */
 
-import { Activity, Risk, Input } from './types';
+import {
+  Activity,
+  Risk,
+  RiskType,
+  Input,
+  ImpactDistribution,
+  ThreePointEstimate,
+  MitigationOption,
+  ScoringProfile,
+  ScaleBand,
+  QualitativeScales,
+  ScenarioDefinition,
+} from './types';
+import { findScheduleCycle } from './schedule';
 
 export interface ValidationError {
   field: string;
@@ -50,6 +63,198 @@ export function validateActivity(activity: Activity): ValidationError[] {
     errors.push({ field: 'level', message: 'Level must be 1 or 2' });
   }
 
+  if (activity.durationEstimate) {
+    errors.push(...validateThreePointEstimate(activity.durationEstimate, 'durationEstimate'));
+  }
+
+  if (activity.costEstimate) {
+    errors.push(...validateThreePointEstimate(activity.costEstimate, 'costEstimate'));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an optimistic / most likely / pessimistic estimate
+ */
+export function validateThreePointEstimate(
+  estimate: ThreePointEstimate,
+  field: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const { optimistic, mostLikely, pessimistic } = estimate;
+
+  if ([optimistic, mostLikely, pessimistic].some((v) => typeof v !== 'number' || isNaN(v))) {
+    errors.push({ field, message: 'Optimistic, most likely and pessimistic values are required' });
+  } else if (!(optimistic <= mostLikely && mostLikely <= pessimistic)) {
+    errors.push({ field, message: 'Estimates must satisfy optimistic <= most likely <= pessimistic' });
+  } else if (optimistic < 0) {
+    errors.push({ field, message: 'Optimistic estimate must be >= 0' });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate logic links between activities
+ * Predecessors must be other existing Level 2 activities and must not form a cycle
+ */
+export function validatePredecessors(activities: Activity[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const level2Ids = new Set(
+    activities.filter((a) => a.level === 2).map((a) => a.id)
+  );
+
+  for (const activity of activities) {
+    for (const predecessor of activity.predecessors ?? []) {
+      if (activity.level !== 2) {
+        errors.push({
+          field: 'predecessors',
+          message: `Activity ${activity.id} is Level 1 and cannot have predecessors`,
+        });
+      } else if (predecessor.activityId === activity.id) {
+        errors.push({
+          field: 'predecessors',
+          message: `Activity ${activity.id} cannot be its own predecessor`,
+        });
+      } else if (!level2Ids.has(predecessor.activityId)) {
+        errors.push({
+          field: 'predecessors',
+          message: `Predecessor ${predecessor.activityId} of ${activity.id} is not a Level 2 activity`,
+        });
+      }
+    }
+  }
+
+  const cycle = findScheduleCycle(activities);
+  if (cycle) {
+    errors.push({
+      field: 'predecessors',
+      message: `Schedule logic contains a cycle involving: ${cycle.join(', ')}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Whether an impact percentage has the sign its risk type allows
+ * Threats: >= 0; opportunities: between -100 and 0
+ */
+function impactInRange(value: number, riskType: RiskType): boolean {
+  return riskType === 'opportunity' ? value <= 0 && value >= -100 : value >= 0;
+}
+
+const OPPORTUNITY_RANGE_MESSAGE = 'Opportunity impacts must be between -100 and 0';
+
+/**
+ * Validate an impact distribution spec
+ * Three-point values must be ordered; discrete outcome probabilities must sum to 100
+ */
+export function validateImpactDistribution(
+  distribution: ImpactDistribution,
+  field: string,
+  riskType: RiskType = 'threat'
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const { min, mostLikely, max } = distribution;
+  const opportunity = riskType === 'opportunity';
+
+  switch (distribution.type) {
+    case 'triangular':
+    case 'pert':
+      if (min === undefined || mostLikely === undefined || max === undefined) {
+        errors.push({ field, message: 'Min, most likely and max are required' });
+      } else if (!(min <= mostLikely && mostLikely <= max)) {
+        errors.push({ field, message: 'Values must satisfy min <= most likely <= max' });
+      } else if (!impactInRange(min, riskType) || !impactInRange(max, riskType)) {
+        errors.push({ field, message: opportunity ? OPPORTUNITY_RANGE_MESSAGE : 'Min must be >= 0' });
+      }
+      break;
+    case 'uniform':
+      if (min === undefined || max === undefined) {
+        errors.push({ field, message: 'Min and max are required' });
+      } else if (min > max) {
+        errors.push({ field, message: 'Min must be <= max' });
+      } else if (!impactInRange(min, riskType) || !impactInRange(max, riskType)) {
+        errors.push({ field, message: opportunity ? OPPORTUNITY_RANGE_MESSAGE : 'Min must be >= 0' });
+      }
+      break;
+    case 'lognormal':
+      if (
+        distribution.mean === undefined ||
+        distribution.mean === 0 ||
+        !impactInRange(distribution.mean, riskType)
+      ) {
+        errors.push({
+          field,
+          message: opportunity
+            ? 'Lognormal mean must be between -100 and 0 (exclusive of 0)'
+            : 'Lognormal mean must be > 0',
+        });
+      }
+      if (distribution.stdDev === undefined || distribution.stdDev < 0) {
+        errors.push({ field, message: 'Lognormal standard deviation must be >= 0' });
+      }
+      break;
+    case 'discrete': {
+      const outcomes = distribution.outcomes ?? [];
+      if (outcomes.length === 0) {
+        errors.push({ field, message: 'At least one discrete outcome is required' });
+        break;
+      }
+      if (outcomes.some((o) => o.probability < 0 || o.probability > 100)) {
+        errors.push({ field, message: 'Outcome probabilities must be between 0 and 100' });
+      }
+      if (outcomes.some((o) => !impactInRange(o.value, riskType))) {
+        errors.push({ field, message: opportunity ? OPPORTUNITY_RANGE_MESSAGE : 'Outcome values must be >= 0' });
+      }
+      const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+      if (Math.abs(total - 100) > 0.01) {
+        errors.push({ field, message: `Outcome probabilities must sum to 100 (currently ${total})` });
+      }
+      break;
+    }
+    default:
+      errors.push({ field, message: `Unknown distribution type: ${distribution.type}` });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a mitigation option
+ * For an opportunity the option enhances it, so residual impacts follow the opportunity's sign
+ */
+export function validateMitigation(
+  mitigation: MitigationOption,
+  riskType: RiskType = 'threat'
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const field = `mitigations.${mitigation.id}`;
+
+  if (!mitigation.description || mitigation.description.trim().length === 0) {
+    errors.push({ field, message: 'Mitigation description is required' });
+  }
+
+  if (mitigation.cost < 0) {
+    errors.push({ field, message: 'Mitigation cost must be >= 0' });
+  }
+
+  if (mitigation.residualProbability < 0 || mitigation.residualProbability > 100) {
+    errors.push({ field, message: 'Residual probability must be between 0 and 100' });
+  }
+
+  if (
+    !impactInRange(mitigation.residualTimeImpactPercent, riskType) ||
+    !impactInRange(mitigation.residualCostImpactPercent, riskType)
+  ) {
+    errors.push({
+      field,
+      message: riskType === 'opportunity' ? OPPORTUNITY_RANGE_MESSAGE : 'Residual impacts must be >= 0',
+    });
+  }
+
   return errors;
 }
 
@@ -74,20 +279,38 @@ export function validateRisk(risk: Risk, allActivityIds: string[]): ValidationEr
     });
   }
 
-  if (risk.timeImpactPercent < 0) {
+  const riskType = risk.type ?? 'threat';
+
+  if (!impactInRange(risk.timeImpactPercent, riskType)) {
     errors.push({
       field: 'timeImpactPercent',
-      message: 'Time impact must be >= 0',
+      message: riskType === 'opportunity' ? OPPORTUNITY_RANGE_MESSAGE : 'Time impact must be >= 0',
     });
   }
 
-  if (risk.costImpactPercent < 0) {
+  if (!impactInRange(risk.costImpactPercent, riskType)) {
     errors.push({
       field: 'costImpactPercent',
-      message: 'Cost impact must be >= 0',
+      message: riskType === 'opportunity' ? OPPORTUNITY_RANGE_MESSAGE : 'Cost impact must be >= 0',
     });
   }
 
+  if (risk.timeImpactDistribution) {
+    errors.push(
+      ...validateImpactDistribution(risk.timeImpactDistribution, 'timeImpactDistribution', riskType)
+    );
+  }
+
+  if (risk.costImpactDistribution) {
+    errors.push(
+      ...validateImpactDistribution(risk.costImpactDistribution, 'costImpactDistribution', riskType)
+    );
+  }
+
+  for (const mitigation of risk.mitigations ?? []) {
+    errors.push(...validateMitigation(mitigation, riskType));
+  }
+
   // Validate affected activities exist
   for (const activityId of risk.affectedActivities) {
     if (!allActivityIds.includes(activityId)) {
@@ -112,6 +335,93 @@ export function validateRisk(risk: Risk, allActivityIds: string[]): ValidationEr
   return errors;
 }
 
+/**
+ * Validate a behavior score profile
+ */
+export function validateScoringProfile(profile: ScoringProfile): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!profile.name || profile.name.trim().length === 0) {
+    errors.push({ field: 'name', message: 'Profile name is required' });
+  }
+
+  for (const [component, weight] of Object.entries(profile.weights)) {
+    if (typeof weight !== 'number' || !isFinite(weight)) {
+      errors.push({ field: `weights.${component}`, message: `Weight for ${component} must be a number` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate one qualitative scale
+ * Bands must have labels and increasing maxima, and each band's value must fall inside the band
+ */
+function validateScaleBands(bands: ScaleBand[], field: string, upperLimit?: number): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (bands.length !== 5) {
+    errors.push({ field, message: 'A scale must have exactly 5 bands' });
+    return errors;
+  }
+
+  bands.forEach((band, i) => {
+    const lower = i === 0 ? 0 : bands[i - 1].max;
+    const isLast = i === bands.length - 1;
+    const name = band.label?.trim() || `Band ${i + 1}`;
+    if (!band.label?.trim()) {
+      errors.push({ field, message: `Band ${i + 1} needs a label` });
+    }
+    if (!isLast && band.max <= lower) {
+      errors.push({ field, message: `${name}: upper bound must be greater than ${lower}` });
+    }
+    if (upperLimit !== undefined && band.max > upperLimit) {
+      errors.push({ field, message: `${name}: upper bound must be <= ${upperLimit}` });
+    }
+    const inBand = (i === 0 ? band.value >= 0 : band.value > lower) && (isLast || band.value <= band.max);
+    if (!inBand) {
+      errors.push({ field, message: `${name}: value ${band.value} is outside the band` });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate the probability and impact scales
+ */
+export function validateQualitativeScales(scales: QualitativeScales): ValidationError[] {
+  return [
+    ...validateScaleBands(scales.probability, 'probability', 100),
+    ...validateScaleBands(scales.impact, 'impact'),
+  ];
+}
+
+/**
+ * Validate a combined scenario against the current risks
+ */
+export function validateScenario(scenario: ScenarioDefinition, risks: Risk[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!scenario.name || scenario.name.trim().length === 0) {
+    errors.push({ field: 'name', message: 'Scenario name is required' });
+  }
+
+  if (scenario.riskIds.length === 0) {
+    errors.push({ field: 'riskIds', message: 'Select at least one risk' });
+  }
+
+  const riskIds = new Set(risks.map((r) => r.id));
+  for (const id of scenario.riskIds) {
+    if (!riskIds.has(id)) {
+      errors.push({ field: 'riskIds', message: `Risk ${id} no longer exists` });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate complete input
  */
@@ -147,6 +457,9 @@ export function validateInput(input: Input): ValidationError[] {
     activityIds.add(activity.id);
   }
 
+  // Validate schedule logic
+  errors.push(...validatePredecessors(input.activities));
+
   // Validate all risks
   const riskIds = new Set<string>();
   const allActivityIds = Array.from(activityIds);
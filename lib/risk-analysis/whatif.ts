@@ -0,0 +1,192 @@
+/**
+ * What-if sandbox: re-run the analysis on a copy of the input with overridden parameters
+ * Monte Carlo reuses the baseline run's seed and iteration count, so the what-if run samples
+ * the same random numbers and differences come from the overrides rather than sampling noise
+ */
+
+import {
+  Activity,
+  AnalysisOutput,
+  Input,
+  MonteCarloSimulationRequest,
+  Risk,
+  RiskAnalysisOutput,
+  ScoringProfile,
+  ThreePointEstimate,
+  WhatIfOverrides,
+  WhatIfResult,
+  WhatIfRiskComparison,
+} from "./types";
+import { analyzeRiskBehavior } from "./analyzer";
+import { calculateDurationDays } from "./calculations";
+import { scaleImpactDistribution } from "./distributions";
+import { DEFAULT_MONTE_CARLO_ITERATIONS } from "./monte-carlo";
+import { DEFAULT_SCORING_PROFILE } from "./scoring";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Rescale a three-point estimate from one planned value to another, keeping its shape
+ */
+function scaleEstimate(
+  estimate: ThreePointEstimate | undefined,
+  fromValue: number,
+  toValue: number
+): ThreePointEstimate | undefined {
+  if (!estimate || fromValue === 0) return estimate;
+  const factor = toValue / fromValue;
+  return {
+    ...estimate,
+    optimistic: estimate.optimistic * factor,
+    mostLikely: estimate.mostLikely * factor,
+    pessimistic: estimate.pessimistic * factor,
+  };
+}
+
+/**
+ * End date that gives the activity the requested duration, in the start date's format
+ */
+function endAfter(start: string, durationDays: number): string {
+  const end = new Date(new Date(start).getTime() + durationDays * DAY_MS).toISOString();
+  return start.length === 10 ? end.slice(0, 10) : end;
+}
+
+function overrideRisk(risk: Risk, overrides: WhatIfOverrides): Risk {
+  const override = overrides.risks.find((o) => o.riskId === risk.id);
+  if (!override) return risk;
+
+  const timeImpactPercent = override.timeImpactPercent ?? risk.timeImpactPercent;
+  const costImpactPercent = override.costImpactPercent ?? risk.costImpactPercent;
+  return {
+    ...risk,
+    probability: override.probability ?? risk.probability,
+    timeImpactPercent,
+    costImpactPercent,
+    timeImpactDistribution:
+      timeImpactPercent === risk.timeImpactPercent
+        ? risk.timeImpactDistribution
+        : scaleImpactDistribution(risk.timeImpactDistribution, risk.timeImpactPercent, timeImpactPercent),
+    costImpactDistribution:
+      costImpactPercent === risk.costImpactPercent
+        ? risk.costImpactDistribution
+        : scaleImpactDistribution(risk.costImpactDistribution, risk.costImpactPercent, costImpactPercent),
+  };
+}
+
+function overrideActivity(activity: Activity, overrides: WhatIfOverrides): Activity {
+  const override = overrides.activities.find((o) => o.activityId === activity.id);
+  if (!override) return activity;
+
+  const result: Activity = { ...activity };
+  if (override.cost !== undefined) {
+    result.cost = override.cost;
+    result.costEstimate = scaleEstimate(activity.costEstimate, activity.cost, override.cost);
+  }
+  // Only Level 2 activities with dates have a duration
+  if (override.durationDays !== undefined && activity.level === 2 && activity.start && activity.end) {
+    result.end = endAfter(activity.start, override.durationDays);
+    result.durationEstimate = scaleEstimate(
+      activity.durationEstimate,
+      calculateDurationDays(activity.start, activity.end),
+      override.durationDays
+    );
+  }
+  return result;
+}
+
+/**
+ * Copy of the input with the overrides applied; impact distributions and three-point
+ * estimates are rescaled to the new values so their spread is kept
+ */
+export function applyWhatIfOverrides(input: Input, overrides: WhatIfOverrides): Input {
+  return {
+    activities: input.activities.map((a) => overrideActivity(a, overrides)),
+    risks: input.risks.map((r) => overrideRisk(r, overrides)),
+  };
+}
+
+/**
+ * 1-based position of each risk when sorted by a ranking
+ */
+function ranks(sorted: RiskAnalysisOutput[]): Map<string, number> {
+  return new Map(sorted.map((a, i) => [a.riskId, i + 1]));
+}
+
+/**
+ * Pair each risk's baseline and what-if outputs with its rank in both runs
+ */
+export function compareRiskOutputs(baseline: AnalysisOutput, whatIf: AnalysisOutput): WhatIfRiskComparison[] {
+  const whatIfById = new Map(whatIf.perRiskAnalysis.map((a) => [a.riskId, a]));
+  const baselineRanks = ranks(baseline.topRisksByBehaviorScore);
+  const whatIfRanks = ranks(whatIf.topRisksByBehaviorScore);
+  const baselineImpactRanks = ranks(baseline.topRisksByExpectedImpact);
+  const whatIfImpactRanks = ranks(whatIf.topRisksByExpectedImpact);
+
+  return baseline.topRisksByBehaviorScore
+    .filter((a) => whatIfById.has(a.riskId))
+    .map((a) => ({
+      riskId: a.riskId,
+      baseline: a,
+      whatIf: whatIfById.get(a.riskId)!,
+      baselineRank: baselineRanks.get(a.riskId)!,
+      whatIfRank: whatIfRanks.get(a.riskId)!,
+      baselineImpactRank: baselineImpactRanks.get(a.riskId)!,
+      whatIfImpactRank: whatIfImpactRanks.get(a.riskId)!,
+    }));
+}
+
+/**
+ * Simulation request for a what-if input, matching the baseline's Monte Carlo settings
+ * The baseline's deadline and budget are reused; the what-if run always completes all
+ * of the baseline's iterations rather than stopping on convergence
+ * A cancelled baseline is matched at the iterations it completed
+ * Returns undefined when the baseline has no Monte Carlo results
+ */
+export function whatIfSimulationRequest(
+  whatIfInput: Input,
+  baseline: AnalysisOutput
+): MonteCarloSimulationRequest | undefined {
+  const monteCarlo = baseline.monteCarlo;
+  if (!monteCarlo?.enabled || monteCarlo.iterations === 0) return undefined;
+  return {
+    type: "simulate",
+    input: whatIfInput,
+    iterations: monteCarlo.iterations ?? DEFAULT_MONTE_CARLO_ITERATIONS,
+    deadline: monteCarlo.deadlineDate,
+    budget: monteCarlo.budget,
+    seed: monteCarlo.seed,
+  };
+}
+
+/**
+ * Re-run the analysis with the overrides
+ * With simulate set, Monte Carlo runs inline with the baseline's settings (see
+ * whatIfSimulationRequest); otherwise the caller runs that request in the worker
+ */
+export function runWhatIf(
+  input: Input,
+  baseline: AnalysisOutput,
+  overrides: WhatIfOverrides,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  simulate: boolean = true
+): WhatIfResult {
+  const whatIfInput = applyWhatIfOverrides(input, overrides);
+  const request = simulate ? whatIfSimulationRequest(whatIfInput, baseline) : undefined;
+  const output = analyzeRiskBehavior(
+    whatIfInput,
+    request !== undefined,
+    request?.iterations,
+    request?.deadline,
+    request?.budget,
+    request?.seed,
+    undefined,
+    scoringProfile
+  );
+
+  return {
+    overrides,
+    input: whatIfInput,
+    output,
+    risks: compareRiskOutputs(baseline, output),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Primavera P6 XER importer
+ * WBS nodes become Level 1 artifacts, tasks become Level 2 activities,
+ * task costs come from resource assignments and TASKPRED rows become predecessors
+ * Lags (stored in hours) become days of the predecessor's calendar, using its hours per day
+ */
+
+import { DependencyType, ImportIssue, ScheduleImportResult } from "./types";
+import {
+  ImportedGroup,
+  ImportedTask,
+  buildImportedActivities,
+  toIsoDate,
+} from "./schedule-import";
+
+type XerRow = Record<string, string>;
+
+// TASKPRED pred_type codes
+const LINK_TYPES: Record<string, DependencyType> = {
+  PR_FS: "FS",
+  PR_SS: "SS",
+  PR_FF: "FF",
+  PR_SF: "SF",
+};
+
+// Task types whose dates are derived from other activities
+const DERIVED_TASK_TYPES: Record<string, string> = {
+  TT_LOE: "Level of effort activity",
+  TT_WBS: "WBS summary activity",
+};
+
+// Hours per day when neither the task's calendar nor a default calendar gives one (P6's default)
+const DEFAULT_HOURS_PER_DAY = 8;
+
+// P6 writes XER in the exporting machine's Windows code page, most often Western European
+const DEFAULT_XER_ENCODING = "windows-1252";
+
+/**
+ * Code page named in the ERMHDR line, if the export declares one (e.g. "windows-1251", "cp1250")
+ */
+function declaredEncoding(bytes: Uint8Array): string | null {
+  const end = bytes.indexOf(0x0a);
+  // The header is ASCII, so a single-byte decode is safe whatever the file's encoding
+  const header = new TextDecoder("latin1").decode(bytes.subarray(0, end === -1 ? bytes.length : end));
+  for (const cell of header.split("\t")) {
+    const match = cell.trim().match(/^(?:windows-|cp)(\d{3,4})$|^(utf-?8)$/i);
+    if (match) return match[1] ? `windows-${match[1]}` : "utf-8";
+  }
+  return null;
+}
+
+/**
+ * Decode the raw bytes of an XER file
+ * Order: UTF-8 byte order mark, the code page declared in ERMHDR, valid UTF-8
+ * (files re-saved by other tools), then windows-1252
+ */
+export function decodeXer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+
+  const declared = declaredEncoding(bytes);
+  if (declared) {
+    try {
+      return new TextDecoder(declared).decode(bytes);
+    } catch {
+      // Unsupported label; fall through to detection
+    }
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder(DEFAULT_XER_ENCODING).decode(bytes);
+  }
+}
+
+/**
+ * Parse the XER table format into rows keyed by field name
+ * %T starts a table, %F lists its fields, %R is a row, %E ends the file
+ */
+export function parseXerTables(text: string): Record<string, XerRow[]> {
+  const tables: Record<string, XerRow[]> = {};
+  let currentTable: string | null = null;
+  let fields: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split("\t");
+    switch (cells[0]) {
+      case "%T":
+        currentTable = cells[1]?.trim() ?? null;
+        fields = [];
+        if (currentTable) tables[currentTable] = [];
+        break;
+      case "%F":
+        fields = cells.slice(1).map((f) => f.trim());
+        break;
+      case "%R":
+        if (currentTable) {
+          const row: XerRow = {};
+          fields.forEach((field, i) => {
+            row[field] = cells[i + 1] ?? "";
+          });
+          tables[currentTable].push(row);
+        }
+        break;
+      case "%E":
+        currentTable = null;
+        break;
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Parse a P6 XER export into wizard activities
+ * Pass text decoded with decodeXer so non-ASCII names survive the Windows code page
+ * Throws if the file is not an XER export or has no TASK table
+ */
+export function parseXer(content: string): ScheduleImportResult {
+  const text = content.replace(/^\uFEFF/, "");
+  if (!text.startsWith("ERMHDR")) {
+    throw new Error("File is not a Primavera P6 XER export");
+  }
+
+  const tables = parseXerTables(text);
+  const projects = tables["PROJECT"] ?? [];
+  const wbsNodes = tables["PROJWBS"] ?? [];
+  const tasks = tables["TASK"] ?? [];
+  const links = tables["TASKPRED"] ?? [];
+  const assignments = tables["TASKRSRC"] ?? [];
+  const calendars = tables["CALENDAR"] ?? [];
+
+  if (tasks.length === 0) {
+    throw new Error("XER file contains no TASK table");
+  }
+
+  const skipped: ImportIssue[] = [];
+  const warnings: string[] = [];
+  const multipleProjects = projects.length > 1;
+  if (multipleProjects) {
+    warnings.push(
+      `File contains ${projects.length} projects; WBS titles are prefixed with the project ID`
+    );
+  }
+
+  const projectNames = new Map(
+    projects.map((p) => [p.proj_id, p.proj_short_name || p.proj_id])
+  );
+
+  // Budgeted cost per task from resource assignments
+  const costByTask = new Map<string, number>();
+  for (const assignment of assignments) {
+    const cost =
+      parseFloat(assignment.target_cost) ||
+      (parseFloat(assignment.act_reg_cost) || 0) +
+        (parseFloat(assignment.act_ot_cost) || 0) +
+        (parseFloat(assignment.remain_cost) || 0);
+    costByTask.set(
+      assignment.task_id,
+      (costByTask.get(assignment.task_id) ?? 0) + cost
+    );
+  }
+
+  // Hours per day of each task's calendar, falling back to its project's and then the default calendar
+  const calendarHours = new Map<string, number>();
+  for (const calendar of calendars) {
+    const hours = parseFloat(calendar.day_hr_cnt);
+    if (hours > 0) calendarHours.set(calendar.clndr_id, hours);
+  }
+  const defaultCalendar = calendars.find((c) => c.default_flag === "Y");
+  const defaultHours = (defaultCalendar && calendarHours.get(defaultCalendar.clndr_id)) ?? DEFAULT_HOURS_PER_DAY;
+  const projectCalendars = new Map(projects.map((p) => [p.proj_id, p.clndr_id]));
+  const hoursPerDayByTask = new Map(
+    tasks.map((t) => [
+      t.task_id,
+      calendarHours.get(t.clndr_id) ?? calendarHours.get(projectCalendars.get(t.proj_id) ?? "") ?? defaultHours,
+    ])
+  );
+  if (calendarHours.size === 0 && links.some((l) => parseFloat(l.lag_hr_cnt))) {
+    warnings.push(`File has no CALENDAR table; lags imported at ${DEFAULT_HOURS_PER_DAY} hours per day`);
+  }
+
+  // Predecessors per successor task
+  const linksByTask = new Map<string, XerRow[]>();
+  for (const link of links) {
+    const list = linksByTask.get(link.task_id) ?? [];
+    list.push(link);
+    linksByTask.set(link.task_id, list);
+  }
+
+  // One group per WBS node, in file order
+  const groups: ImportedGroup[] = [];
+  const groupByWbsId = new Map<string, ImportedGroup>();
+  for (const node of wbsNodes) {
+    const baseTitle =
+      node.proj_node_flag === "Y"
+        ? projectNames.get(node.proj_id) ?? node.wbs_name
+        : node.wbs_name || node.wbs_short_name;
+    const title = multipleProjects
+      ? `${projectNames.get(node.proj_id) ?? node.proj_id}: ${baseTitle}`
+      : baseTitle;
+    const group: ImportedGroup = { sourceId: node.wbs_id, title, tasks: [] };
+    groups.push(group);
+    groupByWbsId.set(node.wbs_id, group);
+  }
+
+  const ungrouped: ImportedGroup = { sourceId: "", title: "Unassigned WBS", tasks: [] };
+
+  for (const task of tasks) {
+    const name = task.task_name || task.task_code;
+
+    if (DERIVED_TASK_TYPES[task.task_type]) {
+      skipped.push({
+        sourceId: task.task_code || task.task_id,
+        name,
+        reason: `${DERIVED_TASK_TYPES[task.task_type]} (dates are derived from other activities)`,
+      });
+      continue;
+    }
+
+    const start = toIsoDate(
+      task.act_start_date || task.early_start_date || task.target_start_date
+    );
+    const end = toIsoDate(
+      task.act_end_date || task.early_end_date || task.target_end_date
+    );
+    if (!start || !end) {
+      skipped.push({
+        sourceId: task.task_code || task.task_id,
+        name,
+        reason: "Missing start or finish date",
+      });
+      continue;
+    }
+
+    const predecessors = (linksByTask.get(task.task_id) ?? []).map((link) => {
+      if (!LINK_TYPES[link.pred_type]) {
+        warnings.push(
+          `Unknown relationship type ${link.pred_type} into "${name}" imported as finish-to-start`
+        );
+      }
+      // P6 measures lag on the predecessor's calendar by default
+      const hoursPerDay = hoursPerDayByTask.get(link.pred_task_id) ?? defaultHours;
+      return {
+        sourceId: link.pred_task_id,
+        type: LINK_TYPES[link.pred_type] ?? "FS",
+        lagDays: Math.round(((parseFloat(link.lag_hr_cnt) || 0) / hoursPerDay) * 100) / 100,
+      };
+    });
+
+    const imported: ImportedTask = {
+      sourceId: task.task_id,
+      title: task.task_code ? `${task.task_code} ${name}` : name,
+      start,
+      end,
+      cost: costByTask.get(task.task_id) ?? 0,
+      predecessors,
+    };
+
+    const group = groupByWbsId.get(task.wbs_id);
+    if (group) {
+      group.tasks.push(imported);
+    } else {
+      ungrouped.tasks.push(imported);
+    }
+  }
+
+  if (ungrouped.tasks.length > 0) {
+    warnings.push(
+      `${ungrouped.tasks.length} task(s) reference a missing WBS node and were placed under "${ungrouped.title}"`
+    );
+    groups.push(ungrouped);
+  }
+
+  if (costByTask.size === 0) {
+    warnings.push("File has no resource assignments (TASKRSRC); all costs imported as 0");
+  }
+
+  return buildImportedActivities(groups, skipped, warnings);
+}
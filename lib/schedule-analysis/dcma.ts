@@ -0,0 +1,441 @@
+/**
+ * DCMA 14-Point Schedule Assessment
+ * Each check reports its value, threshold, pass/fail and the offending tasks
+ */
+
+import { Activity } from "../risk-analysis/types";
+import { calculateDurationDays } from "../risk-analysis/calculations";
+import {
+  buildScheduleNetwork,
+  calculateProjectDuration,
+  calculateSchedule,
+} from "../risk-analysis/schedule";
+import {
+  Schedule,
+  ScheduleTask,
+  DcmaAssessment,
+  DcmaMetricResult,
+  DcmaMetricId,
+} from "./types";
+
+/**
+ * DCMA thresholds
+ * Day-based limits are in working days; the CPM engine works in calendar days,
+ * so they are converted at 5 working days per 7 calendar days
+ */
+export const DCMA_THRESHOLDS = {
+  logicPercent: 5,
+  leadsPercent: 0,
+  lagsPercent: 5,
+  finishToStartPercent: 90,
+  hardConstraintsPercent: 5,
+  highFloatPercent: 5,
+  highFloatWorkingDays: 44,
+  negativeFloatPercent: 0,
+  highDurationPercent: 5,
+  highDurationWorkingDays: 44,
+  invalidDatesPercent: 0,
+  resourcesPercent: 0,
+  missedTasksPercent: 5,
+  criticalPathTestDelayDays: 600,
+  cpli: 0.95,
+  bei: 0.95,
+};
+
+const HARD_CONSTRAINTS = ["MSO", "MFO", "SNLT", "FNLT"];
+
+/**
+ * Convert working days to calendar days (5-day week)
+ */
+function workingToCalendarDays(days: number): number {
+  return (days * 7) / 5;
+}
+
+/**
+ * Signed calendar days from one date to another
+ */
+function dayOffset(from: string, to: string): number {
+  return Math.ceil(
+    (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24)
+  );
+}
+
+/**
+ * Percentage of offending items, null when there is nothing to measure
+ */
+function percentOf(count: number, population: number): number | null {
+  return population > 0 ? (count / population) * 100 : null;
+}
+
+/**
+ * Build a percentage-based metric (value must be <= threshold to pass)
+ */
+function percentMetric(
+  id: DcmaMetricId,
+  number: number,
+  name: string,
+  description: string,
+  offendingTaskIds: string[],
+  population: number,
+  maxPercent: number
+): DcmaMetricResult {
+  const unique = Array.from(new Set(offendingTaskIds));
+  const value = percentOf(offendingTaskIds.length, population);
+  return {
+    id,
+    number,
+    name,
+    description,
+    unit: "percent",
+    value,
+    threshold: `<= ${maxPercent}%`,
+    passed: value === null || value <= maxPercent,
+    count: offendingTaskIds.length,
+    population,
+    offendingTaskIds: unique,
+  };
+}
+
+/**
+ * Map tasks and links onto the CPM engine's activity model
+ * Summary tasks are excluded; links touching them are dropped
+ */
+export function toScheduleActivities(schedule: Schedule): Activity[] {
+  const detailTasks = schedule.tasks.filter((t) => !t.isSummary);
+  const taskIds = new Set(detailTasks.map((t) => t.id));
+
+  return detailTasks.map((task) => ({
+    id: task.id,
+    title: task.name,
+    level: 2,
+    start: task.start,
+    end: task.finish,
+    cost: task.cost ?? 0,
+    predecessors: schedule.links
+      .filter(
+        (l) =>
+          l.successorId === task.id &&
+          taskIds.has(l.predecessorId) &&
+          l.predecessorId !== task.id
+      )
+      .map((l) => ({
+        activityId: l.predecessorId,
+        type: l.type,
+        lagDays: l.lagDays ?? 0,
+      })),
+  }));
+}
+
+function isComplete(task: ScheduleTask): boolean {
+  return !!task.actualFinish;
+}
+
+function plannedDuration(task: ScheduleTask): number {
+  const start = task.baselineStart ?? task.start;
+  const finish = task.baselineFinish ?? task.finish;
+  return calculateDurationDays(start, finish);
+}
+
+/**
+ * Run the DCMA 14-Point assessment
+ * Checks 1-10 are measured on incomplete, non-summary tasks (and their relationships)
+ */
+export function assessSchedule(schedule: Schedule): DcmaAssessment {
+  const detailTasks = schedule.tasks.filter((t) => !t.isSummary);
+  const incomplete = detailTasks.filter((t) => !isComplete(t));
+  const incompleteIds = new Set(incomplete.map((t) => t.id));
+  const detailIds = new Set(detailTasks.map((t) => t.id));
+
+  const relationships = schedule.links.filter(
+    (l) =>
+      detailIds.has(l.predecessorId) &&
+      detailIds.has(l.successorId) &&
+      (incompleteIds.has(l.predecessorId) || incompleteIds.has(l.successorId))
+  );
+
+  const activities = toScheduleActivities(schedule);
+  const cpm = calculateSchedule(activities);
+  const statusDate = new Date(schedule.statusDate);
+
+  // Float measured against the deadline when one is given
+  const deadlineDays = schedule.deadline
+    ? dayOffset(cpm.projectStart, schedule.deadline)
+    : cpm.projectDuration;
+  const deadlineMargin = deadlineDays - cpm.projectDuration;
+  const floatById = new Map(
+    cpm.activities.map((a) => [a.activityId, a.totalFloat + deadlineMargin])
+  );
+
+  const metrics: DcmaMetricResult[] = [];
+
+  // 1. Logic: incomplete tasks missing a predecessor or a successor
+  const missingLogic = incomplete
+    .filter(
+      (t) =>
+        !schedule.links.some((l) => l.successorId === t.id && detailIds.has(l.predecessorId)) ||
+        !schedule.links.some((l) => l.predecessorId === t.id && detailIds.has(l.successorId))
+    )
+    .map((t) => t.id);
+  metrics.push(
+    percentMetric(
+      "logic",
+      1,
+      "Logic",
+      "Incomplete tasks without a predecessor or a successor",
+      missingLogic,
+      incomplete.length,
+      DCMA_THRESHOLDS.logicPercent
+    )
+  );
+
+  // 2. Leads: relationships with negative lag
+  metrics.push(
+    percentMetric(
+      "leads",
+      2,
+      "Leads",
+      "Relationships with a negative lag",
+      relationships.filter((l) => (l.lagDays ?? 0) < 0).map((l) => l.successorId),
+      relationships.length,
+      DCMA_THRESHOLDS.leadsPercent
+    )
+  );
+
+  // 3. Lags: relationships with positive lag
+  metrics.push(
+    percentMetric(
+      "lags",
+      3,
+      "Lags",
+      "Relationships with a positive lag",
+      relationships.filter((l) => (l.lagDays ?? 0) > 0).map((l) => l.successorId),
+      relationships.length,
+      DCMA_THRESHOLDS.lagsPercent
+    )
+  );
+
+  // 4. Relationship types: at least 90% finish-to-start
+  const nonFinishToStart = relationships.filter((l) => l.type !== "FS");
+  const finishToStartPercent = percentOf(
+    relationships.length - nonFinishToStart.length,
+    relationships.length
+  );
+  metrics.push({
+    id: "relationshipTypes",
+    number: 4,
+    name: "Relationship Types",
+    description: "Share of finish-to-start relationships",
+    unit: "percent",
+    value: finishToStartPercent,
+    threshold: `>= ${DCMA_THRESHOLDS.finishToStartPercent}% FS`,
+    passed:
+      finishToStartPercent === null ||
+      finishToStartPercent >= DCMA_THRESHOLDS.finishToStartPercent,
+    count: nonFinishToStart.length,
+    population: relationships.length,
+    offendingTaskIds: Array.from(new Set(nonFinishToStart.map((l) => l.successorId))),
+  });
+
+  // 5. Hard constraints
+  metrics.push(
+    percentMetric(
+      "hardConstraints",
+      5,
+      "Hard Constraints",
+      "Incomplete tasks with MSO, MFO, SNLT or FNLT constraints",
+      incomplete
+        .filter((t) => t.constraintType && HARD_CONSTRAINTS.includes(t.constraintType))
+        .map((t) => t.id),
+      incomplete.length,
+      DCMA_THRESHOLDS.hardConstraintsPercent
+    )
+  );
+
+  // 6. High float
+  const highFloatLimit = workingToCalendarDays(DCMA_THRESHOLDS.highFloatWorkingDays);
+  metrics.push(
+    percentMetric(
+      "highFloat",
+      6,
+      "High Float",
+      `Incomplete tasks with total float above ${DCMA_THRESHOLDS.highFloatWorkingDays} working days`,
+      incomplete
+        .filter((t) => (floatById.get(t.id) ?? 0) > highFloatLimit)
+        .map((t) => t.id),
+      incomplete.length,
+      DCMA_THRESHOLDS.highFloatPercent
+    )
+  );
+
+  // 7. Negative float
+  metrics.push(
+    percentMetric(
+      "negativeFloat",
+      7,
+      "Negative Float",
+      "Incomplete tasks with total float below zero",
+      incomplete
+        .filter((t) => (floatById.get(t.id) ?? 0) < 0)
+        .map((t) => t.id),
+      incomplete.length,
+      DCMA_THRESHOLDS.negativeFloatPercent
+    )
+  );
+
+  // 8. High duration
+  const highDurationLimit = workingToCalendarDays(
+    DCMA_THRESHOLDS.highDurationWorkingDays
+  );
+  metrics.push(
+    percentMetric(
+      "highDuration",
+      8,
+      "High Duration",
+      `Incomplete tasks with a baseline duration above ${DCMA_THRESHOLDS.highDurationWorkingDays} working days`,
+      incomplete.filter((t) => plannedDuration(t) > highDurationLimit).map((t) => t.id),
+      incomplete.length,
+      DCMA_THRESHOLDS.highDurationPercent
+    )
+  );
+
+  // 9. Invalid dates: forecasts in the past or actuals in the future
+  const invalidDates = detailTasks
+    .filter((t) => {
+      const forecastStartInPast = !t.actualStart && new Date(t.start) < statusDate;
+      const forecastFinishInPast = !t.actualFinish && new Date(t.finish) < statusDate;
+      const actualStartInFuture = !!t.actualStart && new Date(t.actualStart) > statusDate;
+      const actualFinishInFuture = !!t.actualFinish && new Date(t.actualFinish) > statusDate;
+      return (
+        forecastStartInPast ||
+        forecastFinishInPast ||
+        actualStartInFuture ||
+        actualFinishInFuture
+      );
+    })
+    .map((t) => t.id);
+  metrics.push(
+    percentMetric(
+      "invalidDates",
+      9,
+      "Invalid Dates",
+      "Forecast dates before the status date or actual dates after it",
+      invalidDates,
+      detailTasks.length,
+      DCMA_THRESHOLDS.invalidDatesPercent
+    )
+  );
+
+  // 10. Resources: incomplete tasks with duration but no resources or cost
+  const workTasks = incomplete.filter(
+    (t) => !t.isMilestone && calculateDurationDays(t.start, t.finish) > 0
+  );
+  metrics.push(
+    percentMetric(
+      "resources",
+      10,
+      "Resources",
+      "Incomplete tasks with duration but no resources or cost loaded",
+      workTasks
+        .filter((t) => (t.resources ?? []).length === 0 && !(t.cost && t.cost > 0))
+        .map((t) => t.id),
+      workTasks.length,
+      DCMA_THRESHOLDS.resourcesPercent
+    )
+  );
+
+  // 11. Missed tasks: baseline finish passed but finished late or not at all
+  const baselineDue = detailTasks.filter(
+    (t) => t.baselineFinish && new Date(t.baselineFinish) <= statusDate
+  );
+  metrics.push(
+    percentMetric(
+      "missedTasks",
+      11,
+      "Missed Tasks",
+      "Tasks due by the status date that finished late or are not finished",
+      baselineDue
+        .filter(
+          (t) =>
+            !t.actualFinish ||
+            new Date(t.actualFinish) > new Date(t.baselineFinish!)
+        )
+        .map((t) => t.id),
+      baselineDue.length,
+      DCMA_THRESHOLDS.missedTasksPercent
+    )
+  );
+
+  // 12. Critical path test: delaying a critical task must delay the project by the same amount
+  const network = buildScheduleNetwork(activities);
+  const testTask = cpm.activities.find(
+    (a) => a.critical && incompleteIds.has(a.activityId)
+  );
+  let criticalPathPassed = false;
+  if (testTask) {
+    const durations = [...network.durations];
+    durations[network.indexById.get(testTask.activityId)!] +=
+      DCMA_THRESHOLDS.criticalPathTestDelayDays;
+    const slip = calculateProjectDuration(network, durations) - cpm.projectDuration;
+    criticalPathPassed =
+      Math.abs(slip - DCMA_THRESHOLDS.criticalPathTestDelayDays) < 1e-6;
+  }
+  metrics.push({
+    id: "criticalPathTest",
+    number: 12,
+    name: "Critical Path Test",
+    description: `Delaying critical task ${testTask?.activityId ?? "(none found)"} by ${DCMA_THRESHOLDS.criticalPathTestDelayDays} days delays the project finish by the same amount`,
+    unit: "passFail",
+    value: criticalPathPassed ? 1 : 0,
+    threshold: "Pass",
+    passed: criticalPathPassed,
+    count: criticalPathPassed ? 0 : 1,
+    population: 1,
+    offendingTaskIds: !criticalPathPassed && testTask ? [testTask.activityId] : [],
+  });
+
+  // 13. CPLI = (critical path length + total float to deadline) / critical path length
+  const remainingLength =
+    cpm.projectDuration -
+    Math.max(0, dayOffset(cpm.projectStart, schedule.statusDate));
+  const cpli =
+    remainingLength > 0 ? (remainingLength + deadlineMargin) / remainingLength : null;
+  metrics.push({
+    id: "cpli",
+    number: 13,
+    name: "Critical Path Length Index",
+    description: "(Remaining critical path length + float to deadline) / remaining critical path length",
+    unit: "ratio",
+    value: cpli,
+    threshold: `>= ${DCMA_THRESHOLDS.cpli}`,
+    passed: cpli === null || cpli >= DCMA_THRESHOLDS.cpli,
+    count: cpli !== null && cpli < DCMA_THRESHOLDS.cpli ? cpm.criticalPath.length : 0,
+    population: cpm.criticalPath.length,
+    offendingTaskIds:
+      cpli !== null && cpli < DCMA_THRESHOLDS.cpli ? cpm.criticalPath : [],
+  });
+
+  // 14. BEI = tasks completed / tasks baselined to finish by the status date
+  const completedCount = detailTasks.filter(isComplete).length;
+  const bei = baselineDue.length > 0 ? completedCount / baselineDue.length : null;
+  metrics.push({
+    id: "bei",
+    number: 14,
+    name: "Baseline Execution Index",
+    description: "Tasks completed / tasks with a baseline finish on or before the status date",
+    unit: "ratio",
+    value: bei,
+    threshold: `>= ${DCMA_THRESHOLDS.bei}`,
+    passed: bei === null || bei >= DCMA_THRESHOLDS.bei,
+    count: baselineDue.filter((t) => !isComplete(t)).length,
+    population: baselineDue.length,
+    offendingTaskIds: baselineDue.filter((t) => !isComplete(t)).map((t) => t.id),
+  });
+
+  return {
+    metrics,
+    passedCount: metrics.filter((m) => m.passed).length,
+    incompleteTaskCount: incomplete.length,
+    relationshipCount: relationships.length,
+    cpm,
+  };
+}
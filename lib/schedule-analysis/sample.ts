@@ -0,0 +1,36 @@
+/**
+ * Sample schedule for trying out the Schedule Quality Analyzer
+ */
+
+import { Schedule } from "./types";
+
+export const SAMPLE_SCHEDULE: Schedule = {
+  name: "Office Fit-Out",
+  statusDate: "2024-03-01",
+  deadline: "2024-06-28",
+  tasks: [
+    { id: "1", name: "Fit-Out Project", start: "2024-01-08", finish: "2024-06-21", isSummary: true },
+    { id: "2", name: "Project start", start: "2024-01-08", finish: "2024-01-08", isMilestone: true, baselineStart: "2024-01-08", baselineFinish: "2024-01-08", actualStart: "2024-01-08", actualFinish: "2024-01-08" },
+    { id: "3", name: "Site survey", start: "2024-01-08", finish: "2024-01-19", baselineStart: "2024-01-08", baselineFinish: "2024-01-19", actualStart: "2024-01-08", actualFinish: "2024-01-22", resources: ["Surveyor"], cost: 4000 },
+    { id: "4", name: "Design", start: "2024-01-22", finish: "2024-02-23", baselineStart: "2024-01-22", baselineFinish: "2024-02-16", actualStart: "2024-01-23", actualFinish: "2024-02-23", resources: ["Architect"], cost: 18000 },
+    { id: "5", name: "Permits", start: "2024-02-26", finish: "2024-03-22", baselineStart: "2024-02-19", baselineFinish: "2024-03-15", actualStart: "2024-02-26", constraintType: "MFO", constraintDate: "2024-03-22", resources: ["PM"], cost: 2500 },
+    { id: "6", name: "Procurement", start: "2024-02-26", finish: "2024-05-24", baselineStart: "2024-02-19", baselineFinish: "2024-04-26", actualStart: "2024-02-26", cost: 60000 },
+    { id: "7", name: "Demolition", start: "2024-03-25", finish: "2024-04-05", baselineStart: "2024-03-18", baselineFinish: "2024-03-29", resources: ["Crew A"], cost: 8000 },
+    { id: "8", name: "Partitions", start: "2024-04-08", finish: "2024-05-03", baselineStart: "2024-04-01", baselineFinish: "2024-04-26", resources: ["Crew A"], cost: 22000 },
+    { id: "9", name: "Electrical", start: "2024-04-15", finish: "2024-05-17", baselineStart: "2024-04-08", baselineFinish: "2024-05-10", resources: ["Electrician"], cost: 16000 },
+    { id: "10", name: "Furniture install", start: "2024-05-27", finish: "2024-06-14", baselineStart: "2024-05-13", baselineFinish: "2024-05-31" },
+    { id: "11", name: "Handover", start: "2024-06-21", finish: "2024-06-21", isMilestone: true, baselineStart: "2024-06-07", baselineFinish: "2024-06-07" },
+  ],
+  links: [
+    { predecessorId: "2", successorId: "3", type: "FS" },
+    { predecessorId: "3", successorId: "4", type: "FS" },
+    { predecessorId: "4", successorId: "5", type: "FS" },
+    { predecessorId: "4", successorId: "6", type: "FS" },
+    { predecessorId: "5", successorId: "7", type: "FS", lagDays: 3 },
+    { predecessorId: "7", successorId: "8", type: "FS" },
+    { predecessorId: "8", successorId: "9", type: "SS", lagDays: 7 },
+    { predecessorId: "6", successorId: "10", type: "FS" },
+    { predecessorId: "9", successorId: "10", type: "FS" },
+    { predecessorId: "10", successorId: "11", type: "FS", lagDays: 7 },
+  ],
+};
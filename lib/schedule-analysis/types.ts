@@ -0,0 +1,89 @@
+/**
+ * Type definitions for the Schedule Quality Analyzer
+ * Schedule input and DCMA 14-Point assessment output
+ */
+
+import { DependencyType, ScheduleResult } from "../risk-analysis/types";
+
+// Scheduling constraints as used by MS Project / P6
+export type ConstraintType =
+  | "ASAP" // As soon as possible
+  | "ALAP" // As late as possible
+  | "SNET" // Start no earlier than
+  | "SNLT" // Start no later than
+  | "FNET" // Finish no earlier than
+  | "FNLT" // Finish no later than
+  | "MSO" // Must start on
+  | "MFO"; // Must finish on
+
+export interface ScheduleTask {
+  id: string;
+  name: string;
+  start: string; // ISO date string (forecast or actual)
+  finish: string; // ISO date string (forecast or actual)
+  baselineStart?: string;
+  baselineFinish?: string;
+  actualStart?: string;
+  actualFinish?: string; // Set when the task is complete
+  isSummary?: boolean;
+  isMilestone?: boolean;
+  constraintType?: ConstraintType;
+  constraintDate?: string;
+  resources?: string[]; // Assigned resource names or IDs
+  cost?: number;
+}
+
+export interface ScheduleLink {
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lagDays?: number; // default 0, negative values are leads
+}
+
+export interface Schedule {
+  name?: string;
+  statusDate: string; // ISO date string (data date)
+  deadline?: string; // ISO date string, contractual finish used for float and CPLI
+  tasks: ScheduleTask[];
+  links: ScheduleLink[];
+}
+
+export type DcmaMetricId =
+  | "logic"
+  | "leads"
+  | "lags"
+  | "relationshipTypes"
+  | "hardConstraints"
+  | "highFloat"
+  | "negativeFloat"
+  | "highDuration"
+  | "invalidDates"
+  | "resources"
+  | "missedTasks"
+  | "criticalPathTest"
+  | "cpli"
+  | "bei";
+
+// Result of a single DCMA check
+export interface DcmaMetricResult {
+  id: DcmaMetricId;
+  number: number; // 1-14
+  name: string;
+  description: string;
+  unit: "percent" | "ratio" | "passFail";
+  value: number | null; // null when the metric does not apply (empty denominator)
+  threshold: string; // Human readable, e.g. "<= 5%"
+  passed: boolean;
+  count: number; // Offending items
+  population: number; // Denominator the value is computed from
+  offendingTaskIds: string[];
+}
+
+// Complete DCMA 14-Point assessment
+export interface DcmaAssessment {
+  metrics: DcmaMetricResult[];
+  passedCount: number;
+  incompleteTaskCount: number;
+  relationshipCount: number;
+  cpm: ScheduleResult;
+}
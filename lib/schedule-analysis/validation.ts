@@ -0,0 +1,85 @@
+/**
+ * Validation utilities for Schedule Quality Analyzer inputs
+ */
+
+import { ValidationError } from '../risk-analysis/validation';
+import { findScheduleCycle } from '../risk-analysis/schedule';
+import { Schedule } from './types';
+import { toScheduleActivities } from './dcma';
+
+const DEPENDENCY_TYPES = ['FS', 'SS', 'FF', 'SF'];
+
+function isValidDate(value: string | undefined): boolean {
+  return !!value && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Validate a schedule before assessment
+ */
+export function validateSchedule(schedule: Schedule): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!isValidDate(schedule.statusDate)) {
+    errors.push({ field: 'statusDate', message: 'A valid status date is required' });
+  }
+
+  if (schedule.deadline !== undefined && !isValidDate(schedule.deadline)) {
+    errors.push({ field: 'deadline', message: 'Deadline must be a valid date' });
+  }
+
+  if (!Array.isArray(schedule.tasks) || schedule.tasks.length === 0) {
+    errors.push({ field: 'tasks', message: 'At least one task is required' });
+    return errors;
+  }
+
+  const taskIds = new Set<string>();
+  for (const task of schedule.tasks) {
+    if (!task.id) {
+      errors.push({ field: 'tasks', message: 'Task ID is required' });
+      continue;
+    }
+    if (taskIds.has(task.id)) {
+      errors.push({ field: 'tasks', message: `Duplicate task ID: ${task.id}` });
+    }
+    taskIds.add(task.id);
+
+    if (!isValidDate(task.start) || !isValidDate(task.finish)) {
+      errors.push({
+        field: 'tasks',
+        message: `Task ${task.id} must have valid start and finish dates`,
+      });
+    } else if (new Date(task.finish) < new Date(task.start)) {
+      errors.push({
+        field: 'tasks',
+        message: `Task ${task.id} finishes before it starts`,
+      });
+    }
+  }
+
+  for (const link of schedule.links ?? []) {
+    if (!taskIds.has(link.predecessorId) || !taskIds.has(link.successorId)) {
+      errors.push({
+        field: 'links',
+        message: `Link ${link.predecessorId} -> ${link.successorId} references an unknown task`,
+      });
+    }
+    if (!DEPENDENCY_TYPES.includes(link.type)) {
+      errors.push({
+        field: 'links',
+        message: `Link ${link.predecessorId} -> ${link.successorId} has an invalid type: ${link.type}`,
+      });
+    }
+  }
+
+  if (errors.length === 0) {
+    const cycle = findScheduleCycle(toScheduleActivities(schedule));
+    if (cycle) {
+      errors.push({
+        field: 'links',
+        message: `Schedule logic contains a cycle involving: ${cycle.join(', ')}`,
+      });
+    }
+  }
+
+  return errors;
+}